@@ -0,0 +1,50 @@
+import { createMachine } from "xstate";
+
+type Events = { type: "START" } | { type: "FINISH"; result: string };
+
+export const fullConfigMachine = createMachine({
+  id: "fullConfig",
+  delimiter: "/",
+  preserveActionOrder: true,
+  tsTypes: {},
+  schema: {
+    context: {} as { retries: number },
+    events: {} as Events,
+  },
+  context: {
+    retries: 0,
+  },
+  meta: {
+    description: "Exercises every key of a state node",
+    owner: "payments",
+    priority: 2,
+  },
+  initial: "idle",
+  states: {
+    idle: {
+      tags: ["waiting", "visible"],
+      on: {
+        START: { target: "working" },
+      },
+    },
+    working: {
+      tags: "busy",
+      invoke: {
+        src: "worker",
+        data: {
+          mode: "fast",
+          limits: [1, 2, 3],
+        },
+      },
+      on: {
+        FINISH: { target: "done" },
+      },
+    },
+    done: {
+      type: "final",
+      data: {
+        status: "complete",
+      },
+    },
+  },
+});
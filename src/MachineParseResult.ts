@@ -3,18 +3,75 @@ import * as t from "@babel/types";
 import { TMachineCallExpression } from "./machineCallExpression";
 import { StateNodeReturn } from "./stateNode";
 import { toMachineConfig } from "./toMachineConfig";
-import { StringLiteralNode, Comment } from "./types";
+import { ConfigSourceMap, getConfigSourceMap } from "./sourceMap";
+import { getMachineElementAtPosition, MachineElement } from "./positions";
+import {
+  StringLiteralNode,
+  Comment,
+  Diagnostic,
+  Location,
+  ModuleResolver,
+} from "./types";
 import { TransitionConfigNode } from "./transitions";
 import { ActionNode, ParsedChooseCondition } from "./actions";
+import { CondNode } from "./conds";
+import { ModelEvent } from "./model";
+import { EventTypeDefinition } from "./eventTypes";
 import type { Scope } from "@babel/traverse";
 import { DeclarationType, INLINE_IMPLEMENTATION_TYPE } from ".";
 import { RecordOfArrays } from "./RecordOfArrays";
+import { reportDiagnostic } from "./diagnostics";
+import {
+  ResolvedTransitionTarget,
+  TransitionTargetResolver,
+} from "./transitionTargets";
+import { getNodeFilename } from "./utils";
+import { printKey, printString, QuoteStyle } from "./printMachineConfig";
+import {
+  createTextEdit,
+  detectQuoteStyle,
+  insertElement,
+  removeElement,
+  replaceNode,
+  SourceText,
+  TextEdit,
+} from "./sourceEdits";
 
 export interface MachineParseResultStateNode {
   path: string[];
   ast: StateNodeReturn;
 }
 
+export type TransitionKind = "on" | "after" | "always" | "onDone" | "onError";
+
+export interface MachineParseResultTransition {
+  config: TransitionConfigNode;
+  fromPath: string[];
+  /**
+   * onDone and onError include the ones of invoke
+   */
+  kind: TransitionKind;
+  /**
+   * The event of on transitions, or the delay
+   * of after transitions
+   */
+  key?: string;
+}
+
+export type ImplementationType = "action" | "guard" | "service" | "delay";
+
+export interface ImplementationReportEntry {
+  type: ImplementationType;
+  name: string;
+  node: t.Node;
+  location: Location;
+  /**
+   * The state node referencing the implementation. Absent
+   * for implementations declared in the options
+   */
+  statePath?: string[];
+}
+
 /**
  * Matches '@xstate-layout awdh123jbawdjhbawd'
  */
@@ -26,6 +83,45 @@ const getLayoutString = (commentString: string): string | undefined => {
   return result?.slice(`@xstate-layout `.length);
 };
 
+/**
+ * The string literal naming the event an action creator
+ * sends, as in send('EVENT') or sendTo(ref, { type: 'EVENT' })
+ */
+const getSentEventLiteral = (node: t.Node): t.StringLiteral | undefined => {
+  if (!t.isCallExpression(node) || !t.isIdentifier(node.callee)) {
+    return undefined;
+  }
+
+  let event: t.Node | undefined;
+
+  switch (node.callee.name) {
+    case "send":
+    case "raise":
+    case "sendParent":
+    case "respond":
+      event = node.arguments[0];
+      break;
+    case "sendTo":
+      event = node.arguments[1];
+      break;
+  }
+
+  if (t.isStringLiteral(event)) return event;
+
+  if (t.isObjectExpression(event)) {
+    const typeProperty = event.properties.find(
+      (property): property is t.ObjectProperty =>
+        t.isObjectProperty(property) &&
+        !property.computed &&
+        t.isIdentifier(property.key, { name: "type" }),
+    );
+
+    if (t.isStringLiteral(typeProperty?.value)) return typeProperty?.value;
+  }
+
+  return undefined;
+};
+
 /**
  * Gives some helpers to the user of the lib
  */
@@ -34,17 +130,36 @@ export class MachineParseResult {
   public fileComments: Comment[];
   private stateNodes: MachineParseResultStateNode[];
   public scope: Scope;
+  private diagnostics: Diagnostic[];
+  private fileContents: string | undefined;
+  private filePath: string | undefined;
+  private resolver: ModuleResolver | undefined;
+  private targetResolver: TransitionTargetResolver;
 
   constructor(props: {
     ast: TMachineCallExpression;
     fileComments: Comment[];
     scope: Scope;
+    diagnostics?: Diagnostic[];
+    /**
+     * Needed to compute edits to the source
+     */
+    fileContents?: string;
+    filePath?: string;
+    resolver?: ModuleResolver;
   }) {
     this.ast = props.ast;
     this.fileComments = props.fileComments;
     this.scope = props.scope;
+    this.diagnostics = props.diagnostics || [];
+    this.fileContents = props.fileContents;
+    this.filePath = props.filePath;
+    this.resolver = props.resolver;
 
     this.stateNodes = this._getAllStateNodes();
+    this.targetResolver = new TransitionTargetResolver(this.stateNodes);
+
+    this.reportUnresolvedTargets();
   }
 
   private _getAllStateNodes = (): MachineParseResultStateNode[] => {
@@ -83,18 +198,22 @@ export class MachineParseResult {
     return isIgnored;
   };
 
+  private findLayoutComment = () => {
+    if (!this.ast?.callee?.loc) return undefined;
+    return this.fileComments.find((comment) => {
+      if (comment.type !== "xstate-layout") return false;
+
+      return comment.node.loc.end.line === this.ast!.callee.loc!.start.line - 1;
+    });
+  };
+
   /**
    * Returns the raw value of a comment marked with @xstate-layout.
    *
    * For instance: '@xstate-layout 1234' will return '1234'
    */
   getLayoutComment = (): { value: string; comment: Comment } | undefined => {
-    if (!this.ast?.callee?.loc) return undefined;
-    const layoutComment = this.fileComments.find((comment) => {
-      if (comment.type !== "xstate-layout") return false;
-
-      return comment.node.loc.end.line === this.ast!.callee.loc!.start.line - 1;
-    });
+    const layoutComment = this.findLayoutComment();
 
     if (!layoutComment) return undefined;
 
@@ -107,52 +226,102 @@ export class MachineParseResult {
     return { comment: layoutComment, value };
   };
 
+  /**
+   * Returns the edit which sets the value of the layout comment,
+   * replacing only the value when the comment exists and
+   * adding a comment above the callee when it doesn't
+   */
+  setLayoutComment = (value: string): TextEdit[] => {
+    if (!this.ast?.callee) return [];
+
+    const source = this.getSourceOfNode(this.ast.callee);
+    if (!source) return [];
+
+    const layoutComment = this.findLayoutComment();
+
+    if (layoutComment) {
+      const { node } = layoutComment;
+      /**
+       * The value of a comment starts after the two
+       * characters opening it
+       */
+      const valueStart = node.start + 2;
+      const match =
+        node.value.match(layoutRegex) || node.value.match(/@xstate-layout/)!;
+      const start = valueStart + match.index!;
+
+      return [
+        createTextEdit(
+          source,
+          start,
+          start + match[0].length,
+          `@xstate-layout ${value}`,
+        ),
+      ];
+    }
+
+    const calleeStart = this.ast.callee.start!;
+    const lineStart = source.contents.lastIndexOf("\n", calleeStart - 1) + 1;
+    const indent = source.contents.slice(lineStart).match(/^[ \t]*/)![0];
+
+    return [
+      createTextEdit(
+        source,
+        lineStart,
+        lineStart,
+        `${indent}/** @xstate-layout ${value} */\n`,
+      ),
+    ];
+  };
+
+  /**
+   * Returns the source text of the call creating the machine
+   */
+  getSource = (): string | undefined => {
+    const { node } = this.ast;
+
+    return this.getSourceOfNode(node)?.contents.slice(node.start!, node.end!);
+  };
+
+  /**
+   * Returns the problems found while parsing this machine,
+   * for instance values which could not be understood
+   * statically
+   */
+  getDiagnostics = () => this.diagnostics;
+
   getTransitions = () => {
-    const targets: { config: TransitionConfigNode; fromPath: string[] }[] = [];
+    const targets: MachineParseResultTransition[] = [];
+
+    const addTransitions = (
+      transitions: TransitionConfigNode[] | undefined,
+      fromPath: string[],
+      kind: TransitionKind,
+      key?: string,
+    ) => {
+      transitions?.forEach((transition) => {
+        targets.push({
+          config: transition,
+          fromPath,
+          kind,
+          ...(key !== undefined && { key }),
+        });
+      });
+    };
 
     this.stateNodes.forEach((stateNode) => {
       stateNode.ast.on?.properties.forEach((on) => {
-        on.result.forEach((transition) => {
-          targets.push({
-            config: transition,
-            fromPath: stateNode.path,
-          });
-        });
+        addTransitions(on.result, stateNode.path, "on", on.key);
       });
       stateNode.ast.after?.properties.forEach((after) => {
-        after.result.forEach((transition) => {
-          targets.push({
-            config: transition,
-            fromPath: stateNode.path,
-          });
-        });
-      });
-      stateNode.ast.onDone?.forEach((transition) => {
-        targets.push({
-          config: transition,
-          fromPath: stateNode.path,
-        });
+        addTransitions(after.result, stateNode.path, "after", after.key);
       });
+      addTransitions(stateNode.ast.onDone, stateNode.path, "onDone");
       stateNode.ast.invoke?.forEach((invoke) => {
-        invoke.onDone?.forEach((transition) => {
-          targets.push({
-            config: transition,
-            fromPath: stateNode.path,
-          });
-        });
-        invoke.onError?.forEach((transition) => {
-          targets.push({
-            config: transition,
-            fromPath: stateNode.path,
-          });
-        });
-      });
-      stateNode.ast.always?.forEach((transition) => {
-        targets.push({
-          config: transition,
-          fromPath: stateNode.path,
-        });
+        addTransitions(invoke.onDone, stateNode.path, "onDone");
+        addTransitions(invoke.onError, stateNode.path, "onError");
       });
+      addTransitions(stateNode.ast.always, stateNode.path, "always");
     });
 
     return targets;
@@ -170,18 +339,114 @@ export class MachineParseResult {
     }[];
   };
 
-  getStateNodeByPath = (path: string[]) => {
-    return this.stateNodes.find((node) => {
-      return node.path.join("") === path.join("");
+  /**
+   * Returns every transition target alongside the absolute
+   * path of the state node it resolves to
+   */
+  getResolvedTransitionTargets = (): ResolvedTransitionTarget[] => {
+    const resolvedTargets: ResolvedTransitionTarget[] = [];
+
+    this.getTransitionTargets().forEach(({ fromPath, target }) => {
+      target.forEach((targetNode) => {
+        resolvedTargets.push({
+          fromPath,
+          target: targetNode,
+          resolvedPath: this.targetResolver.resolve(fromPath, targetNode.value),
+        });
+      });
     });
+
+    return resolvedTargets;
+  };
+
+  /**
+   * Returns the absolute path of the state node a target
+   * written on the state node at fromPath points to
+   */
+  resolveTarget = (fromPath: string[], target: string) => {
+    return this.targetResolver.resolve(fromPath, target);
+  };
+
+  getStateNodeId = (path: string[]) => this.targetResolver.getId(path);
+
+  private reportUnresolvedTargets = () => {
+    this.getResolvedTransitionTargets().forEach(
+      ({ fromPath, target, resolvedPath }) => {
+        if (resolvedPath) return;
+
+        reportDiagnostic(
+          {
+            diagnostics: this.diagnostics,
+            filePath: this.getFilePathOfNode(target.node),
+          },
+          {
+            code: "unresolved-target",
+            message: `Could not resolve the target "${
+              target.value
+            }" of a transition from ${
+              fromPath.length ? `state "${fromPath.join(".")}"` : "the root"
+            }`,
+            node: target.node,
+            severity: "error",
+          },
+        );
+      },
+    );
+  };
+
+  getStateNodeByPath = (path: string[]) => {
+    return this.stateNodes.find(
+      (node) =>
+        node.path.length === path.length &&
+        path.every((key, index) => node.path[index] === key),
+    );
   };
 
   getAllStateNodes = () => this.stateNodes;
 
+  /**
+   * Returns the children of the state node at path,
+   * in the order they are declared
+   */
+  getChildStateNodes = (path: string[]) => {
+    return this.stateNodes.filter(
+      (stateNode) =>
+        stateNode.path.length === path.length + 1 &&
+        path.every((key, index) => stateNode.path[index] === key),
+    );
+  };
+
   toConfig = () => {
     return toMachineConfig(this.ast);
   };
 
+  /**
+   * Maps JSON pointers into the result of toConfig, like
+   * /states/idle/on/FETCH/target, to their source
+   */
+  getSourceMap = (): ConfigSourceMap => {
+    return getConfigSourceMap(this.ast);
+  };
+
+  /**
+   * Finds the innermost state node, transition, action,
+   * guard, service or delay at the position, with a 1-based
+   * line and a 0-based column
+   */
+  getNodeAtPosition = (
+    line: number,
+    column: number,
+  ): MachineElement | undefined => {
+    return getMachineElementAtPosition(this, line, column);
+  };
+
+  toConfigWithLocations = () => {
+    return {
+      config: this.toConfig(),
+      sourceMap: this.getSourceMap(),
+    };
+  };
+
   getAllConds = (
     declarationTypes: DeclarationType[] = [
       "identifier",
@@ -197,35 +462,31 @@ export class MachineParseResult {
       name: string;
     }[] = [];
 
-    this.getTransitions().forEach((transition) => {
-      if (
-        transition.config.cond?.declarationType &&
-        declarationTypes.includes(transition.config.cond?.declarationType)
-      ) {
+    const addCond = (cond: CondNode | undefined, statePath: string[]) => {
+      if (!cond) return;
+
+      if (declarationTypes.includes(cond.declarationType)) {
         conds.push({
-          name: transition.config.cond.name,
-          node: transition.config.cond.node,
-          cond: transition.config.cond.cond,
-          statePath: transition.fromPath,
+          name: cond.name,
+          node: cond.node,
+          cond: cond.cond,
+          statePath,
         });
       }
+
+      cond.guards?.forEach((guard) => addCond(guard, statePath));
+    };
+
+    this.getTransitions().forEach((transition) => {
+      addCond(
+        transition.config.cond || transition.config.guard,
+        transition.fromPath,
+      );
     });
 
     this._getAllActions().forEach((action) => {
       action.node.chooseConditions?.forEach((chooseCondition) => {
-        if (
-          chooseCondition.conditionNode?.declarationType &&
-          declarationTypes.includes(
-            chooseCondition.conditionNode?.declarationType,
-          )
-        ) {
-          conds.push({
-            name: chooseCondition.conditionNode.name,
-            node: chooseCondition.conditionNode.node,
-            cond: chooseCondition.conditionNode.cond,
-            statePath: action.statePath,
-          });
-        }
+        addCond(chooseCondition.conditionNode, action.statePath);
       });
     });
 
@@ -357,9 +618,12 @@ export class MachineParseResult {
 
     this.stateNodes.map((stateNode) => {
       stateNode.ast.after?.properties.forEach((property) => {
-        if (t.isIdentifier(property.keyNode)) {
-          const key = property.key;
+        const key = property.key;
+        const isNamed =
+          t.isIdentifier(property.keyNode) ||
+          (t.isStringLiteral(property.keyNode) && !/^\d+$/.test(key));
 
+        if (isNamed) {
           delays.add(key, {
             node: property.keyNode,
             name: key,
@@ -372,6 +636,351 @@ export class MachineParseResult {
     return delays.toObject();
   };
 
+  private getFilePathOfNode = (node: t.Node): string | undefined => {
+    return getNodeFilename(node) || this.filePath;
+  };
+
+  /**
+   * Returns the text of the file the node was parsed from,
+   * which is another file when the node was imported
+   */
+  private getSourceOfNode = (node: t.Node): SourceText | undefined => {
+    const filePath = this.getFilePathOfNode(node);
+
+    if (!filePath || filePath === this.filePath) {
+      if (typeof this.fileContents !== "string") return undefined;
+      return { filePath: this.filePath, contents: this.fileContents };
+    }
+
+    const file = this.resolver?.files[filePath];
+
+    return file ? { filePath, contents: file.contents } : undefined;
+  };
+
+  private insertElement = (
+    container: t.Node | undefined,
+    getText: (quote: QuoteStyle) => string,
+    position: "start" | "end" = "end",
+  ): TextEdit[] => {
+    if (!t.isObjectExpression(container) && !t.isArrayExpression(container)) {
+      return [];
+    }
+    const source = this.getSourceOfNode(container);
+    if (!source) return [];
+
+    return insertElement(
+      source,
+      container,
+      getText(detectQuoteStyle(source.contents)),
+      position,
+    );
+  };
+
+  /**
+   * Replaces a node with a string, keeping the quotes
+   * of the string literal it replaces
+   */
+  private replaceWithString = (node: t.Node, value: string): TextEdit[] => {
+    const source = this.getSourceOfNode(node);
+    if (!source) return [];
+
+    if (t.isIdentifier(node) || t.isNumericLiteral(node)) {
+      return [
+        replaceNode(
+          source,
+          node,
+          printKey(value, detectQuoteStyle(source.contents)),
+        ),
+      ];
+    }
+
+    const raw: unknown = node.extra?.raw;
+    const quote =
+      typeof raw === "string"
+        ? raw.startsWith("'")
+          ? "single"
+          : "double"
+        : detectQuoteStyle(source.contents);
+
+    return [replaceNode(source, node, printString(value, quote))];
+  };
+
+  /**
+   * Returns the edits which add an empty state node called
+   * name to the state node at path. Like the other edit
+   * methods, it returns no edits when the state node
+   * cannot be found
+   */
+  addState = (path: string[], name: string): TextEdit[] => {
+    const stateNode = this.getStateNodeByPath(path);
+    if (!stateNode) return [];
+
+    if (stateNode.ast.states) {
+      return this.insertElement(
+        stateNode.ast.states.node,
+        (quote) => `${printKey(name, quote)}: {}`,
+      );
+    }
+
+    return this.insertElement(
+      stateNode.ast.node,
+      (quote) => `states: { ${printKey(name, quote)}: {} }`,
+    );
+  };
+
+  /**
+   * Returns the edits which remove the state node at path,
+   * alongside the comments above it
+   */
+  removeState = (path: string[]): TextEdit[] => {
+    const parent = this.getStateNodeByPath(path.slice(0, -1));
+    if (!parent || path.length === 0) return [];
+
+    const property = parent.ast.states?.properties.find(
+      (property) => property.key === path[path.length - 1],
+    )?.property;
+    if (!property) return [];
+
+    const source = this.getSourceOfNode(property);
+    if (!source) return [];
+
+    return [removeElement(source, property)];
+  };
+
+  /**
+   * Returns the edits which add a transition to target when
+   * the state node at fromPath receives event. Existing
+   * transitions for the event are kept, so no edits are
+   * returned when one of them has no guard: XState takes
+   * the first enabled transition, and the added one
+   * could never be taken
+   */
+  addTransition = (
+    fromPath: string[],
+    event: string,
+    target: string,
+  ): TextEdit[] => {
+    const stateNode = this.getStateNodeByPath(fromPath);
+    if (!stateNode) return [];
+
+    const existing = stateNode.ast.on?.properties.find(
+      (property) => property.key === event,
+    );
+
+    if (
+      existing?.result.some(
+        (transition) => !transition.cond && !transition.guard,
+      )
+    ) {
+      return [];
+    }
+
+    const existingProperty = existing?.property;
+
+    if (t.isObjectProperty(existingProperty)) {
+      const value = existingProperty.value;
+
+      if (t.isArrayExpression(value)) {
+        return this.insertElement(value, (quote) => printString(target, quote));
+      }
+
+      const source = this.getSourceOfNode(value);
+      if (!source) return [];
+
+      const valueText = source.contents.slice(value.start!, value.end!);
+      const targetText = printString(target, detectQuoteStyle(source.contents));
+
+      return [replaceNode(source, value, `[${valueText}, ${targetText}]`)];
+    }
+
+    if (stateNode.ast.on) {
+      return this.insertElement(
+        stateNode.ast.on.node,
+        (quote) => `${printKey(event, quote)}: ${printString(target, quote)}`,
+      );
+    }
+
+    return this.insertElement(
+      stateNode.ast.node,
+      (quote) =>
+        `on: { ${printKey(event, quote)}: ${printString(target, quote)} }`,
+    );
+  };
+
+  /**
+   * Returns the edits which rename the event in the keys
+   * of every on in the machine, in the events sent with
+   * send, raise, sendTo, sendParent and respond, and in
+   * the string literals of the declared event types.
+   * Keys computed from a constant are renamed where the
+   * constant is declared.
+   *
+   * Events sent through variables or model.events, and
+   * event types reached through other type aliases, are
+   * left as they are
+   */
+  renameEvent = (oldName: string, newName: string): TextEdit[] => {
+    const edits: TextEdit[] = [];
+    const editedNodes: t.Node[] = [];
+
+    const rename = (node: t.Node) => {
+      if (editedNodes.includes(node)) return;
+
+      editedNodes.push(node);
+      edits.push(...this.replaceWithString(node, newName));
+    };
+
+    this.stateNodes.forEach((stateNode) => {
+      stateNode.ast.on?.properties.forEach((property) => {
+        if (property.key === oldName) rename(property.keyNode);
+      });
+    });
+
+    this.getAllActions().forEach(({ node }) => {
+      const literal = getSentEventLiteral(node);
+      if (literal?.value === oldName) rename(literal);
+    });
+
+    this.getDeclaredEventTypes()?.forEach((eventType) => {
+      if (eventType.type !== oldName) return;
+
+      t.traverseFast(eventType.typeNode, (node) => {
+        if (t.isStringLiteral(node) && node.value === oldName) rename(node);
+      });
+    });
+
+    return edits;
+  };
+
+  /**
+   * Returns the edits which set the initial state of the
+   * state node at path to key
+   */
+  setInitial = (path: string[], key: string): TextEdit[] => {
+    const stateNode = this.getStateNodeByPath(path);
+    if (!stateNode) return [];
+
+    if (stateNode.ast.initial) {
+      return this.replaceWithString(stateNode.ast.initial.node, key);
+    }
+
+    return this.insertElement(
+      stateNode.ast.node,
+      (quote) => `initial: ${printString(key, quote)}`,
+      "start",
+    );
+  };
+
+  /**
+   * Cross-references the named implementations the config uses
+   * with the ones declared in the machine options, returning
+   * references without an implementation and implementations
+   * nothing references.
+   *
+   * Implementations passed later, for instance via
+   * withConfig, are not taken into account
+   */
+  getImplementationReport = () => {
+    const references: ImplementationReportEntry[] = [];
+
+    const addReference = (
+      type: ImplementationType,
+      name: string,
+      node: t.Node,
+      statePath: string[],
+    ) => {
+      references.push({
+        type,
+        name,
+        node,
+        location: node.loc || null,
+        statePath,
+      });
+    };
+
+    this.getAllActions(["named"]).forEach((action) => {
+      addReference("action", action.name, action.node, action.statePath);
+    });
+    this.getAllConds(["named"]).forEach((cond) => {
+      addReference("guard", cond.name, cond.node, cond.statePath);
+    });
+    this.getAllServices(["named"]).forEach((service) => {
+      addReference(
+        "service",
+        service.src,
+        service.srcNode || service.node,
+        service.statePath,
+      );
+    });
+    const delays = this.getAllNamedDelays();
+    Object.keys(delays).forEach((name) => {
+      delays[name].forEach((delay) => {
+        addReference("delay", name, delay.node, delay.statePath);
+      });
+    });
+
+    const options = this.ast?.options;
+    const implementations: ImplementationReportEntry[] = [];
+
+    const addImplementations = (
+      type: ImplementationType,
+      properties: { key: string; keyNode: t.Node }[] = [],
+    ) => {
+      properties.forEach((property) => {
+        implementations.push({
+          type,
+          name: property.key,
+          node: property.keyNode,
+          location: property.keyNode.loc || null,
+        });
+      });
+    };
+
+    addImplementations("action", options?.actions?.properties);
+    addImplementations("guard", options?.guards?.properties);
+    addImplementations("service", options?.services?.properties);
+    addImplementations("service", options?.actors?.properties);
+    addImplementations("delay", options?.delays?.properties);
+
+    const matches = (
+      a: ImplementationReportEntry,
+      b: ImplementationReportEntry,
+    ) => a.type === b.type && a.name === b.name;
+
+    return {
+      missing: references.filter(
+        (reference) =>
+          !implementations.some((implementation) =>
+            matches(reference, implementation),
+          ),
+      ),
+      unused: implementations.filter(
+        (implementation) =>
+          !references.some((reference) => matches(reference, implementation)),
+      ),
+    };
+  };
+
+  /**
+   * The events declared in schema.events or as the second
+   * type argument of createMachine, or undefined when
+   * the machine declares none
+   */
+  getDeclaredEventTypes = (): EventTypeDefinition[] | undefined => {
+    return (
+      this.ast.definition?.schema?.events?.eventTypes ||
+      this.ast.typeArgumentEvents?.eventTypes
+    );
+  };
+
+  /**
+   * The events declared in createModel, for machines
+   * created with model.createMachine
+   */
+  getModelEvents = (): ModelEvent[] => {
+    return this.ast.model?.events || [];
+  };
+
   getActionImplementation = (name: string) => {
     const node = this.ast?.options?.actions?.properties.find((property) => {
       return property.key === name;
@@ -381,7 +990,11 @@ export class MachineParseResult {
   };
 
   getServiceImplementation = (name: string) => {
-    const node = this.ast?.options?.services?.properties.find((property) => {
+    const options = this.ast?.options;
+    const node = [
+      ...(options?.services?.properties || []),
+      ...(options?.actors?.properties || []),
+    ].find((property) => {
       return property.key === name;
     });
 
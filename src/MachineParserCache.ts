@@ -0,0 +1,330 @@
+import * as t from "@babel/types";
+import { createHash } from "crypto";
+import { MachineParseResult } from "./MachineParseResult";
+import { parseMachinesFromFile } from "./parseMachinesFromFile";
+import { RecordOfArrays } from "./RecordOfArrays";
+import { ParseResult, ResolverHost } from "./types";
+
+interface CachedFile {
+  contents: string;
+  version: number | undefined;
+  result: ParseResult;
+  /**
+   * The files read while following imports
+   */
+  dependencies: string[];
+  /**
+   * Set when a dependency changes, so the file is parsed
+   * again without reusing its machines
+   */
+  isStale: boolean;
+  declarations?: DeclarationsByName;
+}
+
+const getPositionKey = (node: { start?: number | null; end?: number | null }) =>
+  `${node.start}:${node.end}`;
+
+const getCommonPrefixLength = (a: string, b: string) => {
+  const length = Math.min(a.length, b.length);
+  let index = 0;
+
+  while (index < length && a.charCodeAt(index) === b.charCodeAt(index)) {
+    index++;
+  }
+
+  return index;
+};
+
+type DeclarationsByName = Record<string, t.Node[]>;
+
+/**
+ * The declarations of a file, keyed by the names they
+ * declare, including hoisted functions and imports
+ */
+const getDeclarationsByName = (file: t.File): DeclarationsByName => {
+  const declarations = new RecordOfArrays<t.Node>();
+
+  t.traverseFast(file, (node) => {
+    if (t.isVariableDeclarator(node)) {
+      Object.keys(t.getBindingIdentifiers(node.id)).forEach((name) => {
+        declarations.add(name, node);
+      });
+    } else if (
+      (t.isFunctionDeclaration(node) ||
+        t.isClassDeclaration(node) ||
+        t.isTSInterfaceDeclaration(node) ||
+        t.isTSTypeAliasDeclaration(node) ||
+        t.isTSEnumDeclaration(node)) &&
+      node.id
+    ) {
+      declarations.add(node.id.name, node);
+    } else if (
+      t.isImportSpecifier(node) ||
+      t.isImportDefaultSpecifier(node) ||
+      t.isImportNamespaceSpecifier(node)
+    ) {
+      declarations.add(node.local.name, node);
+    }
+  });
+
+  return declarations.toObject();
+};
+
+const getIdentifierNames = (node: t.Node) => {
+  const names: string[] = [];
+
+  t.traverseFast(node, (child) => {
+    if (t.isIdentifier(child)) names.push(child.name);
+  });
+
+  return names;
+};
+
+/**
+ * The names a node might reference, directly or through
+ * the declarations of the names it references
+ */
+const getReferencedNames = (
+  node: t.Node,
+  declarations: DeclarationsByName,
+): string[] => {
+  const visitedNames: Record<string, boolean> = {};
+  const names = getIdentifierNames(node);
+
+  while (names.length) {
+    const name = names.pop()!;
+    if (visitedNames[name]) continue;
+    visitedNames[name] = true;
+
+    (declarations[name] || []).forEach((declaration) => {
+      names.push(...getIdentifierNames(declaration));
+    });
+  }
+
+  return Object.keys(visitedNames).sort();
+};
+
+/**
+ * Whether the machine, and every declaration it might
+ * reference before and after the update, lies in the
+ * text at the start of the file which didn't change
+ */
+const isMachineUnchanged = (
+  machine: MachineParseResult,
+  reusableLength: number,
+  previousDeclarations: DeclarationsByName,
+  nextDeclarations: DeclarationsByName,
+) => {
+  const isInUnchangedText = (node: t.Node) =>
+    (node.end ?? Infinity) <= reusableLength;
+
+  if (!isInUnchangedText(machine.ast.node)) return false;
+
+  return getReferencedNames(machine.ast.node, previousDeclarations).every(
+    (name) =>
+      (previousDeclarations[name] || []).every(isInUnchangedText) &&
+      (nextDeclarations[name] || []).every(isInUnchangedText),
+  );
+};
+
+/**
+ * Keeps the results of parsing the files of a project,
+ * so updating a file only parses what changed.
+ *
+ * A machine is reused when the text of the file up to its end
+ * is unchanged, which keeps its locations right, and so are
+ * the declarations it might reference, wherever they are
+ */
+export class MachineParserCache {
+  private files: Record<string, CachedFile> = {};
+  private hashes = new WeakMap<MachineParseResult, string>();
+  /**
+   * The file each machine was parsed from, kept after
+   * the file changes so older machines still hash
+   */
+  private machineFiles = new WeakMap<MachineParseResult, CachedFile>();
+  private resolverHost: ResolverHost | undefined;
+
+  constructor(options: { resolverHost?: ResolverHost } = {}) {
+    this.resolverHost = options.resolverHost;
+  }
+
+  /**
+   * Sets the contents of a file and returns its machines.
+   * Nothing is parsed when the version, or the contents
+   * when no version is passed, match the cached ones
+   */
+  updateFile = (
+    filePath: string,
+    contents: string,
+    version?: number,
+  ): ParseResult => {
+    const cached = this.files[filePath];
+
+    if (
+      cached &&
+      !cached.isStale &&
+      (version !== undefined
+        ? version === cached.version
+        : contents === cached.contents)
+    ) {
+      return cached.result;
+    }
+
+    const reusableLength =
+      cached && !cached.isStale
+        ? getCommonPrefixLength(cached.contents, contents)
+        : 0;
+    const previousMachines: Record<string, MachineParseResult> = {};
+
+    cached?.result.machines.forEach((machine) => {
+      if ((machine.ast.node.end ?? Infinity) <= reusableLength) {
+        previousMachines[getPositionKey(machine.ast.node)] = machine;
+      }
+    });
+
+    let nextDeclarations: DeclarationsByName | undefined;
+
+    const getPreviousMachine = (node: t.CallExpression, file: t.File) => {
+      const machine = previousMachines[getPositionKey(node)];
+      const previousDeclarations = cached && this.getDeclarations(cached);
+      if (!machine || !previousDeclarations) return undefined;
+
+      nextDeclarations = nextDeclarations || getDeclarationsByName(file);
+
+      return isMachineUnchanged(
+        machine,
+        reusableLength,
+        previousDeclarations,
+        nextDeclarations,
+      )
+        ? machine
+        : undefined;
+    };
+
+    const dependencies: string[] = [];
+    const resolverHost = this.resolverHost;
+
+    const result = parseMachinesFromFile(contents, {
+      filePath,
+      resolverHost: resolverHost && {
+        resolveModule: resolverHost.resolveModule,
+        readFile: (dependencyPath) => {
+          dependencies.push(dependencyPath);
+          return (
+            this.files[dependencyPath]?.contents ??
+            resolverHost.readFile(dependencyPath)
+          );
+        },
+      },
+      getPreviousMachine,
+    });
+
+    const file: CachedFile = {
+      contents,
+      version,
+      result,
+      dependencies,
+      isStale: false,
+    };
+
+    this.files[filePath] = file;
+    result.machines.forEach((machine) => {
+      if (!this.machineFiles.has(machine)) {
+        this.machineFiles.set(machine, file);
+      }
+    });
+
+    this.getFilesDependingOn(filePath).forEach((dependentPath) => {
+      this.files[dependentPath].isStale = true;
+    });
+
+    return result;
+  };
+
+  /**
+   * Returns the machines of a file, parsing it again if
+   * a file it imports has changed since
+   */
+  getFile = (filePath: string): ParseResult | undefined => {
+    const cached = this.files[filePath];
+    if (!cached) return undefined;
+
+    if (cached.isStale) {
+      return this.updateFile(filePath, cached.contents, cached.version);
+    }
+
+    return cached.result;
+  };
+
+  removeFile = (filePath: string) => {
+    delete this.files[filePath];
+
+    this.getFilesDependingOn(filePath).forEach((dependentPath) => {
+      this.files[dependentPath].isStale = true;
+    });
+  };
+
+  /**
+   * The files of the cache which import the file,
+   * directly or not
+   */
+  getFilesDependingOn = (filePath: string): string[] => {
+    return Object.keys(this.files).filter((otherPath) =>
+      this.files[otherPath].dependencies.includes(filePath),
+    );
+  };
+
+  private getDeclarations = (file: CachedFile) => {
+    if (!file.declarations && file.result.file) {
+      file.declarations = getDeclarationsByName(file.result.file);
+    }
+
+    return file.declarations;
+  };
+
+  /**
+   * The source of the declarations in its file which
+   * the machine might reference
+   */
+  private getReferencedSource = (machine: MachineParseResult) => {
+    const file = this.machineFiles.get(machine);
+    const declarations = file && this.getDeclarations(file);
+
+    if (!file || !declarations) return "";
+
+    return getReferencedNames(machine.ast.node, declarations)
+      .map((name) =>
+        (declarations[name] || [])
+          .map((declaration) =>
+            file.contents.slice(declaration.start ?? 0, declaration.end ?? 0),
+          )
+          .join("\0"),
+      )
+      .join("\0");
+  };
+
+  /**
+   * A hash of the source, config and layout of the machine and
+   * of the declarations it might reference, which stays the
+   * same while none of them change, even when they move
+   */
+  getMachineHash = (machine: MachineParseResult): string => {
+    let hash = this.hashes.get(machine);
+
+    if (!hash) {
+      hash = createHash("sha1")
+        .update(machine.getSource() ?? "")
+        .update("\0")
+        .update(machine.getLayoutComment()?.value ?? "")
+        .update("\0")
+        .update(this.getReferencedSource(machine))
+        .update("\0")
+        .update(JSON.stringify(machine.toConfig()) ?? "")
+        .digest("hex");
+      this.hashes.set(machine, hash);
+    }
+
+    return hash;
+  };
+}
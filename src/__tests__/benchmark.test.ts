@@ -0,0 +1,144 @@
+import { parseMachinesFromFile } from "..";
+import * as babelTraverse from "@babel/traverse";
+import traverse from "@babel/traverse";
+import * as t from "@babel/types";
+import { indexFile } from "../fileIndex";
+import { findVariableDeclaratorWithName } from "../identifiers";
+import { parseFile } from "../parseFile";
+
+const STATE_COUNT = 500;
+
+/**
+ * Generates a machine where every state key, target
+ * and initial is a reference to a constant
+ */
+const generateMachineFile = (stateCount: number) => {
+  const indexes = Array.from({ length: stateCount }, (_, index) => index);
+
+  const constants = indexes
+    .map((index) => `const STATE_${index} = "state${index}";`)
+    .join("\n");
+
+  const states = indexes
+    .map(
+      (index) => `
+        [STATE_${index}]: {
+          on: {
+            NEXT: STATE_${(index + 1) % stateCount},
+          },
+        },`,
+    )
+    .join("");
+
+  return `
+    ${constants}
+
+    createMachine({
+      initial: STATE_0,
+      states: {${states}
+      },
+    });
+  `;
+};
+
+/**
+ * How names were found before the index: one
+ * traversal of the whole file per lookup
+ */
+const findDeclaratorByTraversal = (file: t.File, name: string) => {
+  let declarator: t.VariableDeclarator | undefined;
+
+  traverse(file as any, {
+    VariableDeclarator(path) {
+      const node = path.node as t.VariableDeclarator;
+      if (t.isIdentifier(node.id) && node.id.name === name) {
+        declarator = node;
+      }
+    },
+  });
+
+  return declarator;
+};
+
+/**
+ * Counts the traversals of whole files made while running,
+ * which is deterministic where timings aren't. Babel calls
+ * traverse again for scopes and sub-paths, so those
+ * calls are left out
+ */
+const countTraversals = (run: () => void) => {
+  const originalTraverse = babelTraverse.default;
+  const spy = jest.spyOn(babelTraverse, "default");
+  /**
+   * Babel reaches helpers like traverse.node through
+   * the default export, so the spy needs them too
+   */
+  Object.assign(spy, originalTraverse);
+
+  try {
+    run();
+    return spy.mock.calls.filter(([node]) => t.isFile(node)).length;
+  } finally {
+    spy.mockRestore();
+  }
+};
+
+describe("Benchmark", () => {
+  const fileContents = generateMachineFile(STATE_COUNT);
+  const names = Array.from(
+    { length: STATE_COUNT },
+    (_, index) => `STATE_${index}`,
+  );
+
+  it(`Should parse a machine with ${STATE_COUNT} states`, () => {
+    const result = parseMachinesFromFile(fileContents);
+
+    const machine = result.machines[0];
+
+    expect(machine.getAllStateNodes()).toHaveLength(STATE_COUNT + 1);
+    expect(machine.getTransitionTargets()).toHaveLength(STATE_COUNT);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it("Should traverse the file as many times whatever the number of states", () => {
+    const smallFileTraversals = countTraversals(() =>
+      parseMachinesFromFile(generateMachineFile(5)),
+    );
+    const traversals = countTraversals(() =>
+      parseMachinesFromFile(fileContents),
+    );
+
+    /**
+     * Looking names up by traversal would take one traversal
+     * for each of the 1001 references to the constants
+     */
+    expect(traversals).toEqual(smallFileTraversals);
+    expect(traversals).toBeLessThan(5);
+
+    const file = parseFile(fileContents);
+
+    expect(
+      countTraversals(() => findDeclaratorByTraversal(file, "STATE_0")),
+    ).toEqual(1);
+  });
+
+  it("Should find the same declarators with the index as by traversal", () => {
+    const file = parseFile(fileContents);
+    const index = indexFile(file);
+
+    /**
+     * Traversing for every name takes seconds, so only
+     * a tenth of the names are compared
+     */
+    names.slice(0, STATE_COUNT / 10).forEach((name) => {
+      const declarator = findVariableDeclaratorWithName(index, name);
+
+      expect(declarator).toBeDefined();
+      expect(declarator).toBe(findDeclaratorByTraversal(file, name));
+    });
+
+    expect(findVariableDeclaratorWithName(index, "STATE_MISSING")).toBe(
+      findDeclaratorByTraversal(file, "STATE_MISSING"),
+    );
+  });
+});
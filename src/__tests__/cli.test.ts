@@ -0,0 +1,143 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { runCli } from "../cli";
+import { globToRegExp } from "../expandGlobs";
+
+const rootDir = path.resolve(__dirname, "../..");
+
+const run = (args: string[]) => {
+  let stdout = "";
+  let stderr = "";
+
+  const exitCode = runCli(args, {
+    cwd: rootDir,
+    stdout: (text) => {
+      stdout += text;
+    },
+    stderr: (text) => {
+      stderr += text;
+    },
+  });
+
+  return { exitCode, stdout, stderr };
+};
+
+describe("CLI", () => {
+  it("Should print the config of each machine in a file as JSON", () => {
+    const result = run(["examples/fetchMachine.ts"]);
+
+    expect(result.exitCode).toEqual(0);
+
+    const records = JSON.parse(result.stdout);
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toEqual(
+      expect.objectContaining({
+        file: "examples/fetchMachine.ts",
+        index: 0,
+        location: expect.objectContaining({
+          start: expect.objectContaining({ line: expect.any(Number) }),
+        }),
+        config: expect.objectContaining({ id: "fetch", initial: "idle" }),
+      }),
+    );
+  });
+
+  it("Should expand globs and print one line per machine as NDJSON", () => {
+    const result = run(["examples/*.machine.ts", "--format", "ndjson"]);
+
+    const lines = result.stdout.trim().split("\n");
+
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line) => {
+      expect(JSON.parse(line).file).toMatch(/^examples\/.*\.machine\.ts$/);
+    });
+  });
+
+  it("Should include inventories and layout strings when asked", () => {
+    const result = run([
+      "examples/authentication.machine.ts",
+      "--inventory",
+      "--layout",
+    ]);
+
+    const [record] = JSON.parse(result.stdout);
+
+    expect(record.layout).toBeNull();
+    expect(record.actions.length).toBeGreaterThan(0);
+    expect(record.services.length).toBeGreaterThan(0);
+    expect(record.conds).toEqual(expect.any(Array));
+  });
+
+  it("Should write typegen files next to machines declaring tsTypes", () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "xstate-parser-"));
+
+    fs.writeFileSync(
+      path.join(cwd, "light.machine.ts"),
+      `createMachine({ tsTypes: {}, initial: 'green', states: { green: {} } });`,
+    );
+    fs.writeFileSync(path.join(cwd, "untyped.ts"), `createMachine({});`);
+
+    try {
+      let stdout = "";
+      const exitCode = runCli(["*.ts", "--typegen"], {
+        cwd,
+        stdout: (text) => {
+          stdout += text;
+        },
+        stderr: () => {},
+      });
+
+      expect(exitCode).toEqual(0);
+      expect(stdout).toEqual(
+        "Wrote light.machine.typegen.ts for light.machine.ts\n",
+      );
+      expect(
+        fs.readFileSync(path.join(cwd, "light.machine.typegen.ts")).toString(),
+      ).toContain(`matchesStates: "green";`);
+      expect(fs.existsSync(path.join(cwd, "untyped.typegen.ts"))).toBe(false);
+    } finally {
+      fs.rmSync(cwd, { recursive: true });
+    }
+  });
+
+  it("Should report files which do not exist", () => {
+    const result = run(["examples/does-not-exist.ts"]);
+
+    expect(result.exitCode).toEqual(1);
+    expect(result.stderr).toContain("does-not-exist.ts");
+  });
+
+  it("Should print the usage to stderr when no files are provided", () => {
+    const result = run([]);
+
+    expect(result.exitCode).toEqual(1);
+    expect(result.stdout).toEqual("");
+    expect(result.stderr).toContain("Usage: xstate-parser");
+  });
+
+  it("Should print the usage to stdout when asked for help", () => {
+    const result = run(["--help"]);
+
+    expect(result.exitCode).toEqual(0);
+    expect(result.stdout).toContain("Usage: xstate-parser");
+  });
+
+  it("Should reject unknown options", () => {
+    const result = run(["--wow", "examples/fetchMachine.ts"]);
+
+    expect(result.exitCode).toEqual(1);
+    expect(result.stderr).toContain("Unknown option: --wow");
+  });
+});
+
+describe("globToRegExp", () => {
+  it("Should match nested directories with **", () => {
+    const regex = globToRegExp("**/*.{ts,tsx}");
+
+    expect(regex.test("a.ts")).toEqual(true);
+    expect(regex.test("a/b/c.tsx")).toEqual(true);
+    expect(regex.test("a/b/c.js")).toEqual(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { parseMachinesFromFile } from "..";
+
+const getContext = (fileContents: string) => {
+  return parseMachinesFromFile(fileContents).machines[0].toConfig()?.context;
+};
+
+describe("Context", () => {
+  it("Should evaluate literals, objects, arrays and identifiers", () => {
+    expect(
+      getContext(`
+        const defaults = { retries: 3, tags: ['a'] };
+        const LIMIT = -1;
+
+        createMachine({
+          context: {
+            ...defaults,
+            name: \`machine\`,
+            limit: LIMIT,
+            enabled: true,
+            ref: null,
+            missing: undefined,
+            items: [1, 'two', { three: 3 }],
+          } as Context,
+        })
+      `),
+    ).toEqual({
+      retries: 3,
+      tags: ["a"],
+      name: "machine",
+      limit: -1,
+      enabled: true,
+      ref: null,
+      missing: undefined,
+      items: [1, "two", { three: 3 }],
+    });
+  });
+
+  it("Should replace values it can't evaluate with placeholders", () => {
+    expect(
+      getContext(`
+        createMachine({
+          context: {
+            createdAt: new Date(),
+            id: uuid(),
+            format: (value) => String(value),
+            ref: someRef,
+            total: 1 + 2,
+          },
+        })
+      `),
+    ).toEqual({
+      createdAt: { $placeholder: "new", source: "new Date()" },
+      id: { $placeholder: "call", source: "uuid()" },
+      format: { $placeholder: "function", source: "(value) => String(value)" },
+      ref: { $placeholder: "identifier", source: "someRef" },
+      total: { $placeholder: "expression", source: "1 + 2" },
+    });
+  });
+
+  it("Should leave references to an object inside itself unevaluated", () => {
+    const result = parseMachinesFromFile(`
+      var a = { b: a, list: [a] };
+      createMachine({ context: a });
+    `);
+
+    expect(result.machines[0].toConfig()?.context).toEqual({
+      b: { $placeholder: "identifier", source: "a" },
+      list: [{ $placeholder: "identifier", source: "a" }],
+    });
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        code: "circular-reference",
+        location: expect.objectContaining({
+          start: expect.objectContaining({ line: 2 }),
+        }),
+      }),
+    ]);
+  });
+
+  it("Should evaluate context factories", () => {
+    expect(
+      getContext(`
+        createMachine({
+          context: () => ({ count: 0 }),
+        })
+      `),
+    ).toEqual({ count: 0 });
+
+    expect(
+      getContext(`
+        createMachine({
+          context() {
+            return { count: 1 };
+          },
+        })
+      `),
+    ).toEqual({ count: 1 });
+  });
+
+  it("Should use the initial context of a model", () => {
+    expect(
+      getContext(`
+        const model = createModel({ count: 0 });
+
+        model.createMachine({});
+      `),
+    ).toEqual({ count: 0 });
+  });
+});
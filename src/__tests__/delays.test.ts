@@ -39,4 +39,20 @@ describe("Delays", () => {
       "WOW",
     ]);
   });
+
+  it("Should count string keys which are not numbers as named delays", () => {
+    const machines = parseMachinesFromFile(`
+      createMachine({
+        after: {
+          'SLOW': {},
+          '1000': {},
+          2000: {},
+        }
+      })
+    `);
+
+    const result = machines.machines[0];
+
+    expect(Object.keys(result.getAllNamedDelays())).toEqual(["SLOW"]);
+  });
 });
@@ -0,0 +1,83 @@
+import { parseMachinesFromFile } from "..";
+
+describe("Diagnostics", () => {
+  it("Should report values which could not be parsed", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        initial: getInitialState(),
+      })
+    `);
+
+    const diagnostics = result.machines[0].getDiagnostics();
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].code).toEqual("invalid-property-value");
+    expect(diagnostics[0].message).toContain(`"initial"`);
+    expect(diagnostics[0].location?.start.line).toEqual(3);
+  });
+
+  it("Should report spreads of identifiers which could not be resolved", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        states: {
+          ...importedStates,
+        }
+      })
+    `);
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        code: "unresolved-spread",
+        severity: "warning",
+      }),
+    ]);
+    expect(result.diagnostics[0].message).toContain("importedStates");
+  });
+
+  it("Should report computed keys which could not be evaluated", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        states: {
+          [getKey()]: {},
+        }
+      })
+    `);
+
+    expect(result.machines[0].getDiagnostics()).toEqual([
+      expect.objectContaining({
+        code: "unresolved-computed-key",
+      }),
+    ]);
+  });
+
+  it("Should report machine definitions which could not be parsed", () => {
+    const result = parseMachinesFromFile(`
+      createMachine(getConfig())
+    `);
+
+    expect(result.machines[0].getDiagnostics()).toEqual([
+      expect.objectContaining({
+        code: "invalid-machine-definition",
+        severity: "error",
+      }),
+    ]);
+  });
+
+  it("Should not report anything for statically analysable machines", () => {
+    const result = parseMachinesFromFile(`
+      const states = {
+        a: {},
+      };
+
+      createMachine({
+        initial: 'a',
+        states: {
+          ...states,
+          b: {},
+        }
+      })
+    `);
+
+    expect(result.diagnostics).toEqual([]);
+  });
+});
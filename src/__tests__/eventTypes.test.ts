@@ -0,0 +1,193 @@
+import { parseMachinesFromFile } from "..";
+import { lintMachine } from "../lint";
+
+const getEventTypes = (fileContents: string) => {
+  return parseMachinesFromFile(fileContents)
+    .machines[0].getDeclaredEventTypes()
+    ?.map(({ type, payload }) => ({ type, payload }));
+};
+
+describe("Event types", () => {
+  it("Should describe the events in schema.events", () => {
+    expect(
+      getEventTypes(`
+        interface Base {
+          id: number;
+        }
+
+        interface SubmitEvent extends Base {
+          type: 'SUBMIT';
+          values: string[];
+          mode?: Mode;
+        }
+
+        type Mode = 'draft' | 'final';
+
+        type Events =
+          | SubmitEvent
+          | { type: 'CANCEL' | 'CLOSE' }
+          | ({ type: 'SELECT' } & { item: { label: string; count: number | null } });
+
+        createMachine({
+          schema: {
+            events: {} as Events,
+          },
+        });
+      `),
+    ).toEqual([
+      {
+        type: "SUBMIT",
+        payload: {
+          type: "object",
+          properties: {
+            id: { type: "number" },
+            values: { type: "array", items: { type: "string" } },
+            mode: { type: "string", enum: ["draft", "final"] },
+          },
+          required: ["id", "values"],
+        },
+      },
+      { type: "CANCEL", payload: { type: "object", properties: {} } },
+      { type: "CLOSE", payload: { type: "object", properties: {} } },
+      {
+        type: "SELECT",
+        payload: {
+          type: "object",
+          properties: {
+            item: {
+              type: "object",
+              properties: {
+                label: { type: "string" },
+                count: { anyOf: [{ type: "number" }, { type: "null" }] },
+              },
+              required: ["label", "count"],
+            },
+          },
+          required: ["item"],
+        },
+      },
+    ]);
+  });
+
+  it("Should read the events from the type arguments", () => {
+    expect(
+      getEventTypes(`
+        createMachine<Context, { type: 'A'; value: boolean } | { type: 'B' }>({});
+      `),
+    ).toEqual([
+      {
+        type: "A",
+        payload: {
+          type: "object",
+          properties: { value: { type: "boolean" } },
+          required: ["value"],
+        },
+      },
+      { type: "B", payload: { type: "object", properties: {} } },
+    ]);
+
+    expect(getEventTypes(`createMachine({})`)).toBeUndefined();
+  });
+
+  it("Should resolve type names from the scope they are used in", () => {
+    expect(
+      getEventTypes(`
+        type Payload = { id: string };
+
+        function createToggle() {
+          type Events = { type: 'TOGGLE'; payload: Payload };
+          return createMachine<Context, Events>({});
+        }
+
+        function createOther() {
+          type Payload = { count: number };
+          type Events = { type: 'OTHER' };
+        }
+      `),
+    ).toEqual([
+      {
+        type: "TOGGLE",
+        payload: {
+          type: "object",
+          properties: {
+            payload: {
+              type: "object",
+              properties: { id: { type: "string" } },
+              required: ["id"],
+            },
+          },
+          required: ["payload"],
+        },
+      },
+    ]);
+  });
+
+  it("Should leave recursive type aliases open where they recurse", () => {
+    expect(
+      getEventTypes(`
+        type Tree = { value: string; children: Tree[] };
+        createMachine<Context, { type: 'LOAD'; tree: Tree }>({});
+      `),
+    ).toEqual([
+      {
+        type: "LOAD",
+        payload: {
+          type: "object",
+          properties: {
+            tree: {
+              type: "object",
+              properties: {
+                value: { type: "string" },
+                children: { type: "array", items: {} },
+              },
+              required: ["value", "children"],
+            },
+          },
+          required: ["tree"],
+        },
+      },
+    ]);
+  });
+
+  it("Should leave recursive interfaces open where they recurse", () => {
+    expect(
+      getEventTypes(`
+        interface Node { next?: Node }
+        createMachine<Context, { type: 'ADD'; node: Node }>({});
+      `),
+    ).toEqual([
+      {
+        type: "ADD",
+        payload: {
+          type: "object",
+          properties: {
+            node: { type: "object", properties: { next: {} } },
+          },
+          required: ["node"],
+        },
+      },
+    ]);
+  });
+
+  it("Should flag on keys missing from the declared events", () => {
+    const machine = parseMachinesFromFile(`
+      createMachine<Context, { type: 'START' }>({
+        on: {
+          START: {},
+          STRAT: {},
+          '*': {},
+          'done.invoke.fetch': {},
+        },
+      });
+    `).machines[0];
+
+    expect(
+      lintMachine(machine).map(({ rule, message }) => ({ rule, message })),
+    ).toEqual([
+      {
+        rule: "undeclared-event",
+        message: `Event "STRAT" is not one of the declared events`,
+      },
+    ]);
+  });
+});
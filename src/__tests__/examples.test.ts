@@ -2,10 +2,44 @@ import fs from "fs";
 import path from "path";
 import { StateMachine } from "xstate";
 import { parseMachinesFromFile } from "../parseMachinesFromFile";
-import { testUtils } from "../testUtils";
+import { isStaticValuePlaceholder } from "../staticValue";
 
 const examples = fs.readdirSync(path.resolve(__dirname, "../../examples"));
 
+/**
+ * Context values in the examples which can only be
+ * known by running them
+ */
+const UNEVALUATED_SOURCES = ["Math.random() < 0.5", "Infinity"];
+
+/**
+ * Puts the placeholders the parser gives unevaluated
+ * values into the expected context
+ */
+const withUnevaluatedPlaceholders = (expected: any, received: any): any => {
+  if (
+    isStaticValuePlaceholder(received) &&
+    UNEVALUATED_SOURCES.includes(received.source)
+  ) {
+    return received;
+  }
+  if (
+    typeof expected !== "object" ||
+    expected === null ||
+    typeof received !== "object" ||
+    received === null
+  ) {
+    return expected;
+  }
+
+  const result = Array.isArray(expected) ? [...expected] : { ...expected };
+  Object.keys(result).forEach((key) => {
+    result[key] = withUnevaluatedPlaceholders(expected[key], received[key]);
+  });
+
+  return result;
+};
+
 describe("Examples", () => {
   examples.forEach((example) => {
     test(example, async () => {
@@ -23,11 +57,18 @@ describe("Examples", () => {
 
       exampleMachines.forEach((machine, index) => {
         try {
-          const sourceMachineConfig = testUtils.withoutContext(
-            machine.config as any,
-          );
+          const machineConfigUnderTest = machines[index].toConfig()!;
 
-          const machineConfigUnderTest = machines[index].toConfig();
+          const config = machine.config as any;
+          const sourceMachineConfig = {
+            ...config,
+            ...("context" in config && {
+              context: withUnevaluatedPlaceholders(
+                config.context,
+                machineConfigUnderTest.context,
+              ),
+            }),
+          };
 
           expect(machineConfigUnderTest).toEqual(sourceMachineConfig);
         } catch (e: any) {
@@ -0,0 +1,64 @@
+import { parseMachinesFromFile } from "..";
+
+describe("getImplementationReport", () => {
+  it("Should report missing and unused implementations", () => {
+    const result = parseMachinesFromFile(`
+      createMachine(
+        {
+          initial: 'idle',
+          states: {
+            idle: {
+              entry: ['logEntry', 'track'],
+              after: { SHORT_DELAY: 'loading' },
+              on: {
+                FETCH: { target: 'loading', cond: 'canFetch' },
+              },
+            },
+            loading: {
+              invoke: { src: 'fetchData' },
+              exit: () => {},
+            },
+          },
+        },
+        {
+          actions: {
+            logEntry: () => {},
+            unusedAction: () => {},
+          },
+          guards: {
+            canFetch: () => true,
+          },
+          delays: {
+            LONG_DELAY: 1000,
+          },
+        },
+      )
+    `);
+
+    const report = result.machines[0].getImplementationReport();
+
+    expect(
+      report.missing.map(({ type, name, statePath, location }) => ({
+        type,
+        name,
+        statePath,
+        line: location?.start.line,
+      })),
+    ).toEqual([
+      { type: "action", name: "track", statePath: ["idle"], line: 7 },
+      { type: "service", name: "fetchData", statePath: ["loading"], line: 14 },
+      { type: "delay", name: "SHORT_DELAY", statePath: ["idle"], line: 8 },
+    ]);
+
+    expect(
+      report.unused.map(({ type, name, location }) => ({
+        type,
+        name,
+        line: location?.start.line,
+      })),
+    ).toEqual([
+      { type: "action", name: "unusedAction", line: 22 },
+      { type: "delay", name: "LONG_DELAY", line: 28 },
+    ]);
+  });
+});
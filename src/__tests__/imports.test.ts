@@ -0,0 +1,158 @@
+import path from "path";
+import { parseMachinesFromFile } from "../parseMachinesFromFile";
+import { createFileSystemResolverHost } from "../fileSystemResolverHost";
+import { ResolverHost } from "../types";
+
+const createInMemoryHost = (files: Record<string, string>): ResolverHost => ({
+  readFile: (filePath) => files[filePath],
+  resolveModule: (specifier, fromFilePath) => {
+    const resolved = path.posix.join(
+      path.posix.dirname(fromFilePath || "/"),
+      specifier,
+    );
+    return [resolved, `${resolved}.ts`, `${resolved}/index.ts`].find(
+      (file) => file in files,
+    );
+  },
+});
+
+const parseWithFiles = (
+  fileContents: string,
+  files: Record<string, string>,
+) => {
+  return parseMachinesFromFile(fileContents, {
+    filePath: "/src/machine.ts",
+    resolverHost: createInMemoryHost(files),
+  });
+};
+
+describe("Following imports", () => {
+  it("Should resolve spreads of objects imported from other files", () => {
+    const result = parseWithFiles(
+      `
+      import { sharedStates } from './shared';
+
+      createMachine({
+        initial: 'idle',
+        states: {
+          ...sharedStates,
+        }
+      })
+    `,
+      {
+        "/src/shared.ts": `
+          const TARGET = 'idle';
+
+          export const sharedStates = {
+            idle: {},
+            done: { on: { RESET: TARGET } },
+          };
+        `,
+      },
+    );
+
+    expect(result.machines[0].toConfig()).toEqual({
+      initial: "idle",
+      states: {
+        idle: {},
+        done: { on: { RESET: { target: "idle" } } },
+      },
+    });
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it("Should follow re-exports and namespace imports", () => {
+    const result = parseWithFiles(
+      `
+      import * as STATES from './constants';
+      import { Events } from './constants';
+
+      createMachine({
+        initial: STATES.idle,
+        states: {
+          [STATES.idle]: {
+            on: {
+              [Events.Go]: STATES.nested.done,
+            }
+          },
+        }
+      })
+    `,
+      {
+        "/src/constants/index.ts": `
+          export * from './states';
+          export { Events } from './events';
+        `,
+        "/src/constants/states.ts": `
+          export const idle = 'idle';
+          export const nested = { done: 'done' };
+        `,
+        "/src/constants/events.ts": `
+          export enum Events {
+            Go = 'GO',
+          }
+        `,
+      },
+    );
+
+    expect(result.machines[0].toConfig()).toEqual({
+      initial: "idle",
+      states: {
+        idle: {
+          on: { GO: { target: "done" } },
+        },
+      },
+    });
+  });
+
+  it("Should report imports which cannot be resolved", () => {
+    const result = parseWithFiles(
+      `
+      import { sharedStates } from './missing';
+
+      createMachine({
+        states: {
+          ...sharedStates,
+        }
+      })
+    `,
+      {},
+    );
+
+    expect(result.diagnostics.map((diagnostic) => diagnostic.code)).toEqual([
+      "unresolved-import",
+      "unresolved-spread",
+    ]);
+  });
+
+  it("Should not follow imports when no host is provided", () => {
+    const result = parseMachinesFromFile(`
+      import { initialState } from './shared';
+
+      createMachine({
+        initial: initialState,
+      })
+    `);
+
+    expect(result.machines[0].toConfig()).toEqual({});
+  });
+});
+
+describe("createFileSystemResolverHost", () => {
+  it("Should resolve tsconfig paths", () => {
+    const rootDir = path.resolve(__dirname, "../..");
+    const host = createFileSystemResolverHost({
+      compilerOptions: {
+        baseUrl: rootDir,
+        paths: { "@examples/*": ["examples/*"] },
+      },
+    });
+
+    expect(host.resolveModule("@examples/fetchMachine", undefined)).toEqual(
+      path.resolve(rootDir, "examples/fetchMachine.ts"),
+    );
+    expect(
+      host.resolveModule("./fetchMachine", path.join(rootDir, "examples/a.ts")),
+    ).toEqual(path.resolve(rootDir, "examples/fetchMachine.ts"));
+  });
+});
@@ -0,0 +1,304 @@
+import { PassThrough } from "stream";
+import {
+  createMessageReader,
+  encodeMessage,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcResponse,
+} from "../jsonRpc";
+import { connectLanguageServer } from "../lsp";
+
+/**
+ * Starts a language server and talks to it over streams,
+ * the way an editor would over stdio
+ */
+const createLanguageClient = () => {
+  const clientToServer = new PassThrough();
+  const serverToClient = new PassThrough();
+
+  connectLanguageServer(clientToServer, serverToClient);
+
+  let nextId = 1;
+  const pendingRequests: Record<string, (response: JsonRpcResponse) => void> =
+    {};
+  const notifications: JsonRpcNotification[] = [];
+  const notificationListeners: (() => void)[] = [];
+
+  serverToClient.on(
+    "data",
+    createMessageReader((message) => {
+      if ("method" in message) {
+        notifications.push(message);
+        notificationListeners.splice(0).forEach((listener) => listener());
+      } else {
+        pendingRequests[`${message.id}`]?.(message);
+      }
+    }),
+  );
+
+  const send = (message: JsonRpcMessage) => {
+    clientToServer.write(encodeMessage(message));
+  };
+
+  const request = (method: string, params?: any): Promise<any> => {
+    const id = nextId++;
+
+    return new Promise((resolve, reject) => {
+      pendingRequests[id] = (response) => {
+        delete pendingRequests[id];
+        if (response.error) {
+          reject(new Error(response.error.message));
+        } else {
+          resolve(response.result);
+        }
+      };
+      send({ jsonrpc: "2.0", id, method, params });
+    });
+  };
+
+  const notify = (method: string, params?: any) => {
+    send({ jsonrpc: "2.0", method, params });
+  };
+
+  /**
+   * Resolves with the oldest notification of the method
+   * not yet returned, waiting for one if needed
+   */
+  const nextNotification = (method: string): Promise<any> => {
+    return new Promise((resolve) => {
+      const check = () => {
+        const index = notifications.findIndex(
+          (notification) => notification.method === method,
+        );
+        if (index === -1) {
+          notificationListeners.push(check);
+          return;
+        }
+        resolve(notifications.splice(index, 1)[0].params);
+      };
+      check();
+    });
+  };
+
+  return { request, notify, nextNotification };
+};
+
+const uri = "file:///project/machine.ts";
+
+const fileContents = `import { createMachine } from "xstate";
+
+type Events = { type: "FETCH" } | { type: "CANCEL" };
+
+const machine = createMachine(
+  {
+    schema: { events: {} as Events },
+    initial: "idle",
+    states: {
+      idle: {
+        meta: { description: "Waiting for the user" },
+        on: { FETCH: { target: "loading", actions: "logFetch" } },
+      },
+      loading: {
+        on: { CANCEL: "idle", RETRY: "missing" },
+      },
+    },
+  },
+  {
+    actions: { logFetch: () => {} },
+  },
+);`;
+
+const range = (
+  line: number,
+  startCharacter: number,
+  endLine: number,
+  endCharacter: number,
+) => ({
+  start: { line, character: startCharacter },
+  end: { line: endLine, character: endCharacter },
+});
+
+const openClient = async () => {
+  const client = createLanguageClient();
+
+  await client.request("initialize", { capabilities: {} });
+  client.notify("initialized", {});
+  client.notify("textDocument/didOpen", {
+    textDocument: {
+      uri,
+      languageId: "typescript",
+      version: 1,
+      text: fileContents,
+    },
+  });
+
+  return client;
+};
+
+const at = (line: number, character: number) => ({
+  textDocument: { uri },
+  position: { line, character },
+});
+
+describe("Language server", () => {
+  it("Should publish lint findings and update them when the text changes", async () => {
+    const client = await openClient();
+
+    const opened = await client.nextNotification(
+      "textDocument/publishDiagnostics",
+    );
+
+    expect(opened.uri).toEqual(uri);
+    expect(
+      opened.diagnostics.map((diagnostic: any) => [
+        diagnostic.code,
+        diagnostic.severity,
+        diagnostic.range,
+      ]),
+    ).toEqual([
+      ["unknown-target", 1, range(14, 37, 14, 46)],
+      ["undeclared-event", 2, range(14, 30, 14, 35)],
+    ]);
+
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ range: range(14, 38, 14, 45), text: "idle" }],
+    });
+
+    const changed = await client.nextNotification(
+      "textDocument/publishDiagnostics",
+    );
+
+    expect(
+      changed.diagnostics.map((diagnostic: any) => diagnostic.code),
+    ).toEqual(["undeclared-event"]);
+  });
+
+  it("Should publish the diagnostics of the parser", async () => {
+    const client = await openClient();
+
+    await client.nextNotification("textDocument/publishDiagnostics");
+
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [
+        { text: `createMachine({\n  on: { ...getHandlers() },\n});` },
+      ],
+    });
+
+    const changed = await client.nextNotification(
+      "textDocument/publishDiagnostics",
+    );
+
+    expect(changed.diagnostics).toEqual([
+      {
+        range: range(1, 8, 1, 24),
+        severity: 2,
+        code: "unresolved-spread",
+        source: "xstate",
+        message: "Could not resolve the spread of CallExpression",
+      },
+    ]);
+  });
+
+  it("Should go from targets and actions to their definitions", async () => {
+    const client = await openClient();
+
+    expect(await client.request("textDocument/definition", at(11, 33))).toEqual(
+      { uri, range: range(13, 6, 13, 13) },
+    );
+    expect(await client.request("textDocument/definition", at(11, 54))).toEqual(
+      { uri, range: range(19, 15, 19, 23) },
+    );
+    expect(await client.request("textDocument/definition", at(2, 0))).toEqual(
+      null,
+    );
+  });
+
+  it("Should find the references of states and events", async () => {
+    const client = await openClient();
+
+    expect(
+      await client.request("textDocument/references", {
+        ...at(9, 7),
+        context: { includeDeclaration: true },
+      }),
+    ).toEqual([
+      { uri, range: range(9, 6, 9, 10) },
+      { uri, range: range(14, 22, 14, 28) },
+      { uri, range: range(7, 13, 7, 19) },
+    ]);
+
+    expect(
+      await client.request("textDocument/references", {
+        ...at(11, 15),
+        context: { includeDeclaration: true },
+      }),
+    ).toEqual([
+      { uri, range: range(11, 14, 11, 19) },
+      { uri, range: range(2, 14, 2, 31) },
+    ]);
+  });
+
+  it("Should complete targets and events", async () => {
+    const client = await openClient();
+
+    expect(await client.request("textDocument/completion", at(11, 35))).toEqual(
+      [
+        {
+          label: "loading",
+          kind: 18,
+          textEdit: { range: range(11, 32, 11, 39), newText: "loading" },
+        },
+      ],
+    );
+
+    const events = await client.request("textDocument/completion", at(14, 16));
+
+    expect(events.map((item: any) => item.label)).toEqual([
+      "FETCH",
+      "CANCEL",
+      "RETRY",
+    ]);
+  });
+
+  it("Should show the description of states on hover", async () => {
+    const client = await openClient();
+
+    expect(await client.request("textDocument/hover", at(14, 24))).toEqual({
+      contents: {
+        kind: "markdown",
+        value: "**(machine).idle**\n\nWaiting for the user",
+      },
+      range: range(14, 22, 14, 28),
+    });
+    expect(await client.request("textDocument/hover", at(13, 8))).toEqual(null);
+  });
+
+  it("Should log the errors of notifications and keep running", async () => {
+    const client = await openClient();
+    await client.nextNotification("textDocument/publishDiagnostics");
+
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: null,
+    });
+
+    expect(await client.nextNotification("window/logMessage")).toEqual({
+      type: 1,
+      message: expect.stringContaining(
+        "Could not handle textDocument/didChange",
+      ),
+    });
+    expect(await client.request("textDocument/hover", at(13, 8))).toEqual(null);
+  });
+
+  it("Should reject unknown requests and shut down", async () => {
+    const client = await openClient();
+
+    await expect(
+      client.request("textDocument/rename", at(9, 7)),
+    ).rejects.toThrow("Unhandled method textDocument/rename");
+    expect(await client.request("shutdown")).toEqual(null);
+  });
+});
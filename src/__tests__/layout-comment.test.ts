@@ -1,4 +1,5 @@
 import { parseMachinesFromFile } from "..";
+import { applyTextEdits } from "../sourceEdits";
 
 describe("Layout comments", () => {
   it("Should ensure that layout comments are parsed", () => {
@@ -11,4 +12,52 @@ describe("Layout comments", () => {
       `layout-string`,
     );
   });
+
+  it("Should replace only the value of an existing layout comment", () => {
+    const fileContents = `
+      /**
+       * The machine
+       * @xstate-layout old-layout
+       */
+      export const machine = createMachine({});
+    `;
+    const machine = parseMachinesFromFile(fileContents).machines[0];
+
+    const edited = applyTextEdits(
+      fileContents,
+      machine.setLayoutComment("new-layout"),
+    );
+
+    expect(edited).toContain(`       * The machine
+       * @xstate-layout new-layout
+       */`);
+    expect(
+      parseMachinesFromFile(edited).machines[0].getLayoutComment()?.value,
+    ).toEqual("new-layout");
+  });
+
+  it.each([
+    ["export const", "export const machine = createMachine({});"],
+    ["export default", "export default createMachine({});"],
+    ["member expression", "const machine = xstate.createMachine({});"],
+  ])("Should insert a layout comment above %s callees", (_, code) => {
+    const fileContents = `
+      import * as xstate from "xstate";
+
+      ${code}
+    `;
+    const machine = parseMachinesFromFile(fileContents).machines[0];
+
+    const edited = applyTextEdits(
+      fileContents,
+      machine.setLayoutComment("layout"),
+    );
+
+    expect(edited).toContain(`
+      /** @xstate-layout layout */
+      ${code}`);
+    expect(
+      parseMachinesFromFile(edited).machines[0].getLayoutComment()?.value,
+    ).toEqual("layout");
+  });
 });
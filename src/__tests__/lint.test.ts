@@ -0,0 +1,160 @@
+import { parseMachinesFromFile } from "..";
+import { lintMachine } from "../lint";
+
+const lint = (fileContents: string, config = {}) => {
+  const machine = parseMachinesFromFile(fileContents).machines[0];
+
+  return lintMachine(machine, config).map((finding) => ({
+    rule: finding.rule,
+    severity: finding.severity,
+    message: finding.message,
+    line: finding.location?.start.line,
+  }));
+};
+
+describe("Lint rules", () => {
+  it("Should report nothing for a valid machine", () => {
+    expect(
+      lint(`
+        createMachine({
+          initial: 'idle',
+          states: {
+            idle: { on: { START: 'running', RESUME: 'running.b.hist' } },
+            running: {
+              type: 'parallel',
+              states: {
+                a: {},
+                b: {
+                  initial: 'c',
+                  states: { c: {}, hist: { type: 'history' } },
+                },
+              },
+              on: { STOP: 'done' },
+            },
+            done: { type: 'final' },
+          },
+        })
+      `),
+    ).toEqual([]);
+  });
+
+  it("Should report each problem against its node", () => {
+    expect(
+      lint(`createMachine({
+  initial: 'missing',
+  states: {
+    a: { id: 'same', on: { NEXT: 'nowhere' } },
+    b: {
+      id: 'same',
+      states: { c: {} },
+    },
+    done: {
+      type: 'final',
+      on: { RESTART: 'a' },
+    },
+    hist: { type: 'history' },
+    split: {
+      type: 'parallel',
+      states: { left: {}, back: { type: 'history' } },
+    },
+  },
+})`),
+    ).toEqual([
+      {
+        rule: "unknown-target",
+        severity: "error",
+        message: `Target "nowhere" does not match any state node`,
+        line: 4,
+      },
+      {
+        rule: "missing-initial",
+        severity: "warning",
+        message: `State "b" has child states but no initial state`,
+        line: 5,
+      },
+      {
+        rule: "invalid-initial",
+        severity: "error",
+        message: `Initial state "missing" is not a child of the root state`,
+        line: 2,
+      },
+      {
+        rule: "unreachable-state",
+        severity: "warning",
+        message: `State "a" cannot be reached from the root state`,
+        line: 4,
+      },
+      {
+        rule: "unreachable-state",
+        severity: "warning",
+        message: `State "b" cannot be reached from the root state`,
+        line: 5,
+      },
+      {
+        rule: "unreachable-state",
+        severity: "warning",
+        message: `State "done" cannot be reached from the root state`,
+        line: 9,
+      },
+      {
+        rule: "unreachable-state",
+        severity: "warning",
+        message: `State "hist" cannot be reached from the root state`,
+        line: 13,
+      },
+      {
+        rule: "unreachable-state",
+        severity: "warning",
+        message: `State "split" cannot be reached from the root state`,
+        line: 14,
+      },
+      {
+        rule: "duplicate-id",
+        severity: "error",
+        message: `The id "same" is used by more than one state node`,
+        line: 6,
+      },
+      {
+        rule: "final-state-transitions",
+        severity: "warning",
+        message: `State "done" is final, so its transitions will never be taken`,
+        line: 11,
+      },
+      {
+        rule: "orphan-history",
+        severity: "error",
+        message: `State "split.back" is a history state outside of a compound state`,
+        line: 16,
+      },
+    ]);
+  });
+
+  it("Should respect the configured settings", () => {
+    const findings = lint(
+      `
+        createMachine({
+          initial: 'a',
+          states: {
+            a: {},
+            b: {},
+          },
+        })
+      `,
+      { "unreachable-state": "error", "missing-initial": "off" },
+    );
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        rule: "unreachable-state",
+        severity: "error",
+        message: `State "b" cannot be reached from the root state`,
+      }),
+    ]);
+
+    expect(
+      lint(`createMachine({ initial: 'a', states: { a: {}, b: {} } })`, {
+        "unreachable-state": "off",
+      }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { MachineParserCache } from "../MachineParserCache";
+
+const firstMachine = `createMachine({ id: 'first', initial: 'a', states: { a: {} } });`;
+const secondMachine = `createMachine({ id: 'second', initial: 'b', states: { b: {} } });`;
+
+describe("MachineParserCache", () => {
+  it("Should return the cached result when nothing changed", () => {
+    const cache = new MachineParserCache();
+
+    const result = cache.updateFile("/machine.ts", firstMachine);
+
+    expect(cache.updateFile("/machine.ts", firstMachine)).toBe(result);
+    expect(cache.updateFile("/machine.ts", `${firstMachine} `, 1)).not.toBe(
+      result,
+    );
+    expect(cache.updateFile("/machine.ts", `${firstMachine}  `, 1)).toBe(
+      cache.getFile("/machine.ts"),
+    );
+  });
+
+  it("Should reuse the machines the update left untouched", () => {
+    const cache = new MachineParserCache();
+
+    const before = cache.updateFile(
+      "/machine.ts",
+      `${firstMachine}\n${secondMachine}`,
+    );
+    const after = cache.updateFile(
+      "/machine.ts",
+      `${firstMachine}\n${secondMachine.replace("b: {}", "b: {}, c: {}")}`,
+    );
+
+    expect(after.machines[0]).toBe(before.machines[0]);
+    expect(after.machines[1]).not.toBe(before.machines[1]);
+    expect(after.machines[1].toConfig()?.states).toEqual({ b: {}, c: {} });
+
+    expect(cache.getMachineHash(after.machines[0])).toEqual(
+      cache.getMachineHash(before.machines[0]),
+    );
+    expect(cache.getMachineHash(after.machines[1])).not.toEqual(
+      cache.getMachineHash(before.machines[1]),
+    );
+  });
+
+  it("Should parse machines again when a declaration below them changes", () => {
+    const cache = new MachineParserCache();
+    const getSource = (event: string, unrelated: number) => `
+      createMachine<Context, Events>({ on: { A: {} } });
+      type Events = { type: '${event}' };
+      const unrelated = ${unrelated};
+    `;
+
+    const before = cache.updateFile("/machine.ts", getSource("A", 1));
+    const afterUnrelatedChange = cache.updateFile(
+      "/machine.ts",
+      getSource("A", 2),
+    );
+    const after = cache.updateFile("/machine.ts", getSource("B", 2));
+
+    expect(afterUnrelatedChange.machines[0]).toBe(before.machines[0]);
+    expect(after.machines[0]).not.toBe(before.machines[0]);
+    expect(
+      after.machines[0].getDeclaredEventTypes()?.map(({ type }) => type),
+    ).toEqual(["B"]);
+    expect(cache.getMachineHash(after.machines[0])).not.toEqual(
+      cache.getMachineHash(before.machines[0]),
+    );
+  });
+
+  it("Should keep the hash of machines which only moved", () => {
+    const cache = new MachineParserCache();
+
+    const before = cache.updateFile("/machine.ts", firstMachine);
+    const after = cache.updateFile("/machine.ts", `\n\n${firstMachine}`);
+
+    expect(after.machines[0]).not.toBe(before.machines[0]);
+    expect(after.machines[0].ast.node.loc?.start.line).toEqual(3);
+    expect(cache.getMachineHash(after.machines[0])).toEqual(
+      cache.getMachineHash(before.machines[0]),
+    );
+  });
+
+  it("Should parse files again when a file they import changes", () => {
+    const cache = new MachineParserCache({
+      resolverHost: {
+        readFile: () => undefined,
+        resolveModule: (specifier) =>
+          specifier === "./states" ? "/states.ts" : undefined,
+      },
+    });
+
+    cache.updateFile("/states.ts", `export const INITIAL = 'a';`);
+    const before = cache.updateFile(
+      "/machine.ts",
+      `import { INITIAL } from './states';
+createMachine({ initial: INITIAL, states: { a: {}, b: {} } });`,
+    );
+
+    expect(before.machines[0].toConfig()?.initial).toEqual("a");
+    expect(cache.getFilesDependingOn("/states.ts")).toEqual(["/machine.ts"]);
+
+    cache.updateFile("/states.ts", `export const INITIAL = 'b';`);
+
+    expect(
+      cache.getFile("/machine.ts")?.machines[0].toConfig()?.initial,
+    ).toEqual("b");
+  });
+});
@@ -0,0 +1,63 @@
+import { parseMachinesFromFile } from "..";
+
+describe("createModel", () => {
+  it("Should link model.createMachine back to its model", () => {
+    const result = parseMachinesFromFile(`
+      const model = createModel(
+        { count: 0 },
+        {
+          events: {
+            inc: (value: number, by = 1) => ({ value, by }),
+            reset: () => ({}),
+          },
+        },
+      );
+
+      const machine = model.createMachine({
+        on: {
+          inc: { actions: model.assign({ count: 1 }, 'inc') },
+          reset: { actions: model.reset() },
+          PING: { actions: send(model.events.inc(2)) },
+        },
+      });
+    `);
+
+    const machine = result.machines[0];
+
+    expect(result.diagnostics).toEqual([]);
+    expect(
+      machine.getModelEvents().map(({ name, params }) => ({ name, params })),
+    ).toEqual([
+      { name: "inc", params: ["value", "by"] },
+      { name: "reset", params: [] },
+    ]);
+    expect(
+      machine
+        .getAllActions(["inline"])
+        .map((action) => (action.action as any).type),
+    ).toEqual(["xstate.assign", "xstate.assign", "xstate.send"]);
+    expect(machine.toConfig()?.on).toEqual({
+      inc: { actions: expect.objectContaining({ type: "xstate.assign" }) },
+      reset: { actions: expect.objectContaining({ type: "xstate.assign" }) },
+      PING: {
+        actions: expect.objectContaining({
+          type: "xstate.send",
+          event: { type: "inc" },
+        }),
+      },
+    });
+  });
+
+  it("Should not treat assign on other objects as a model", () => {
+    const result = parseMachinesFromFile(`
+      const helpers = { assign: () => {} };
+
+      createMachine({
+        entry: helpers.assign({}),
+      });
+    `);
+
+    expect(result.machines[0].getModelEvents()).toEqual([]);
+    expect(result.machines[0].getAllActions(["unknown"])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { parseMachinesFromFile } from "..";
+
+const fileContents = `const first = createMachine({
+  initial: 'idle',
+  states: {
+    idle: {
+      entry: 'showIdle',
+      on: {
+        FETCH: { target: 'loading', cond: 'canFetch' },
+      },
+      after: { TIMEOUT: 'loading' },
+    },
+    loading: {
+      invoke: { src: 'fetchData', onDone: 'idle' },
+    },
+  },
+});
+
+const second = createMachine({});`;
+
+describe("Positions", () => {
+  const result = parseMachinesFromFile(fileContents);
+  const machine = result.machines[0];
+
+  const describeAt = (line: number, column: number) => {
+    const { node, ...element } = machine.getNodeAtPosition(line, column)!;
+    return element;
+  };
+
+  it("Should find the innermost element at a position", () => {
+    expect(describeAt(2, 3)).toEqual({ type: "stateNode", path: [] });
+    expect(describeAt(4, 5)).toEqual({ type: "stateNode", path: ["idle"] });
+    expect(describeAt(5, 16)).toEqual({
+      type: "action",
+      path: ["idle"],
+      name: "showIdle",
+    });
+    expect(describeAt(7, 9)).toEqual({
+      type: "transition",
+      path: ["idle"],
+      event: "FETCH",
+      index: 0,
+    });
+    expect(describeAt(7, 20)).toEqual({
+      type: "transition",
+      path: ["idle"],
+      event: "FETCH",
+      index: 0,
+    });
+    expect(describeAt(7, 45)).toEqual({
+      type: "guard",
+      path: ["idle"],
+      name: "canFetch",
+    });
+    expect(describeAt(9, 16)).toEqual({
+      type: "delay",
+      path: ["idle"],
+      name: "TIMEOUT",
+    });
+    expect(describeAt(12, 24)).toEqual({
+      type: "service",
+      path: ["loading"],
+      src: "fetchData",
+      id: undefined,
+    });
+    expect(describeAt(12, 48)).toEqual({
+      type: "transition",
+      path: ["loading"],
+      event: "done.invoke.fetchData",
+      index: 0,
+    });
+    expect(machine.getNodeAtPosition(17, 0)).toBeUndefined();
+  });
+
+  it("Should find the machine at a position", () => {
+    expect(result.findMachineAtPosition(5, 10)).toBe(result.machines[0]);
+    expect(result.findMachineAtPosition(17, 20)).toBe(result.machines[1]);
+    expect(result.findMachineAtPosition(16, 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,134 @@
+import fs from "fs";
+import path from "path";
+import { parseMachinesFromFile } from "..";
+import { INLINE_IMPLEMENTATION_TYPE } from "../constants";
+import { printMachineConfig } from "../printMachineConfig";
+
+const examples = fs.readdirSync(path.resolve(__dirname, "../../examples"));
+
+/**
+ * Serialises a config so that inline implementations, whether
+ * functions, placeholders or printed stubs, compare equal
+ */
+const serialiseWithInlineImplementations = (config: any) => {
+  return JSON.stringify(config, (_key, value) => {
+    if (typeof value === "function") return INLINE_IMPLEMENTATION_TYPE;
+    if (
+      typeof value === "string" &&
+      /^inline(Action|Guard|Service)\d+$/.test(value)
+    ) {
+      return INLINE_IMPLEMENTATION_TYPE;
+    }
+    return value;
+  });
+};
+
+describe("printMachineConfig", () => {
+  describe("Round-tripping examples", () => {
+    examples.forEach((example) => {
+      test(example, () => {
+        const fileAsString = fs
+          .readFileSync(path.resolve(__dirname, "../../examples", example))
+          .toString();
+
+        const { machines } = parseMachinesFromFile(fileAsString);
+
+        machines.forEach((machine) => {
+          const config = machine.toConfig()!;
+
+          const printed = printMachineConfig(config);
+
+          const reparsed = parseMachinesFromFile(printed);
+
+          expect(reparsed.machines).toHaveLength(1);
+          expect(reparsed.diagnostics).toEqual([]);
+          expect(
+            serialiseWithInlineImplementations(reparsed.machines[0].toConfig()),
+          ).toEqual(serialiseWithInlineImplementations(config));
+        });
+      });
+    });
+  });
+
+  it("Should print idiomatic source with named stubs", () => {
+    const { machines } = parseMachinesFromFile(`
+      createMachine({
+        initial: 'idle',
+        states: {
+          idle: {
+            entry: [assign({ count: 0 }), 'log', () => {}],
+            on: {
+              FETCH: { target: 'loading', cond: (ctx) => ctx.ready },
+            },
+          },
+          loading: {
+            invoke: { src: async () => {} },
+          },
+        },
+      })
+    `);
+
+    expect(printMachineConfig(machines[0].toConfig()!)).toEqual(
+      `import { createMachine, assign } from "xstate";
+
+export const machine = createMachine({
+  initial: "idle",
+  states: {
+    idle: {
+      entry: [assign({}), "log", "inlineAction1"],
+      on: {
+        FETCH: {
+          target: "loading",
+          cond: "inlineGuard1",
+        },
+      },
+    },
+    loading: {
+      invoke: {
+        src: "inlineService1",
+      },
+    },
+  },
+}, {
+  actions: {
+    inlineAction1: () => {},
+  },
+  guards: {
+    inlineGuard1: () => false,
+  },
+  services: {
+    inlineService1: () => Promise.resolve(),
+  },
+});
+`,
+    );
+  });
+
+  it("Should respect quote style, trailing commas and key order", () => {
+    const printed = printMachineConfig(
+      {
+        states: { "a-b": {} },
+        initial: "a-b",
+        id: "it's",
+      },
+      {
+        quote: "single",
+        trailingComma: false,
+        keyOrder: "canonical",
+      },
+    );
+
+    expect(printed).toEqual(
+      `import { createMachine } from 'xstate';
+
+export const machine = createMachine({
+  id: 'it\\'s',
+  initial: 'a-b',
+  states: {
+    'a-b': {}
+  }
+});
+`,
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { parseMachinesFromFile } from "..";
+
+describe("Scope-aware identifier resolution", () => {
+  it("Should resolve identifiers declared in the function creating the machine", () => {
+    const result = parseMachinesFromFile(`
+      const makeFirst = () => {
+        const initialState = 'first';
+        return createMachine({ initial: initialState });
+      };
+
+      const makeSecond = () => {
+        const initialState = 'second';
+        return createMachine({ initial: initialState });
+      };
+    `);
+
+    expect(result.machines.map((machine) => machine.toConfig())).toEqual([
+      { initial: "first" },
+      { initial: "second" },
+    ]);
+  });
+
+  it("Should prefer the closest declaration of a shadowed name", () => {
+    const result = parseMachinesFromFile(`
+      const target = 'outer';
+
+      function makeMachine() {
+        const target = 'inner';
+        return createMachine({
+          on: { GO: target },
+        });
+      }
+
+      const other = createMachine({
+        on: { GO: target },
+      });
+    `);
+
+    expect(result.machines[0].toConfig()).toEqual({
+      on: { GO: { target: "inner" } },
+    });
+    expect(result.machines[1].toConfig()).toEqual({
+      on: { GO: { target: "outer" } },
+    });
+  });
+
+  it("Should not resolve names declared in an unrelated scope", () => {
+    const result = parseMachinesFromFile(`
+      function somethingElse() {
+        const initialState = 'wrong';
+      }
+
+      createMachine({ initial: initialState });
+    `);
+
+    expect(result.machines[0].toConfig()).toEqual({});
+  });
+
+  it("Should report function parameters as ambiguous", () => {
+    const result = parseMachinesFromFile(`
+      const makeMachine = (initialState) => createMachine({
+        initial: initialState,
+      });
+    `);
+
+    expect(result.machines[0].toConfig()).toEqual({});
+    expect(result.diagnostics).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          code: "ambiguous-binding",
+          message: expect.stringContaining("function parameter"),
+        }),
+      ]),
+    );
+  });
+
+  it("Should report reassigned variables as ambiguous", () => {
+    const result = parseMachinesFromFile(`
+      let initialState = 'a';
+      initialState = 'b';
+
+      createMachine({ initial: initialState });
+    `);
+
+    expect(result.machines[0].toConfig()).toEqual({ initial: "a" });
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        code: "ambiguous-binding",
+        message: expect.stringContaining("reassigned"),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import { parseMachinesFromFile } from "..";
+import { fromSCXML } from "../fromSCXML";
+import { printMachineConfig } from "../printMachineConfig";
+import { toSCXML } from "../toSCXML";
+
+describe("SCXML", () => {
+  it("Should print states, history, executable content and transitions", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        id: 'player',
+        initial: 'idle',
+        states: {
+          idle: {
+            entry: 'reset',
+            on: { PLAY: { target: 'playing', cond: 'hasTrack', actions: raise('STARTED') } },
+            after: { 1000: 'done' },
+          },
+          playing: {
+            initial: 'normal',
+            exit: ['pause', () => {}],
+            states: {
+              normal: {},
+              hist: { type: 'history', history: 'deep', target: 'normal' },
+            },
+            on: { STOP: '#player.done' },
+          },
+          done: { type: 'final' },
+        },
+      })
+    `);
+
+    expect(toSCXML(result.machines[0]))
+      .toEqual(`<?xml version="1.0" encoding="UTF-8"?>
+<scxml xmlns="http://www.w3.org/2005/07/scxml" xmlns:xstate="https://xstate.js.org/scxml" version="1.0" name="player" initial="idle">
+  <state id="idle">
+    <onentry>
+      <xstate:action type="reset"/>
+      <send event="xstate.after(1000)#player.idle" id="xstate.after(1000)#player.idle" delay="1000ms"/>
+    </onentry>
+    <onexit>
+      <cancel sendid="xstate.after(1000)#player.idle"/>
+    </onexit>
+    <transition event="xstate.after(1000)#player.idle" target="done"/>
+    <transition event="PLAY" cond="hasTrack" target="playing">
+      <raise event="STARTED"/>
+    </transition>
+  </state>
+  <state id="playing" initial="playing.normal">
+    <onexit>
+      <xstate:action type="pause"/>
+    </onexit>
+    <transition event="STOP" target="done"/>
+    <state id="playing.normal"/>
+    <history id="playing.hist" type="deep">
+      <transition target="playing.normal"/>
+    </history>
+  </state>
+  <final id="done"/>
+</scxml>
+`);
+  });
+
+  it("Should round-trip machines through SCXML", () => {
+    const source = `
+      createMachine({
+        id: 'fetch',
+        initial: 'idle',
+        states: {
+          idle: {
+            entry: ['reset', raise('READY')],
+            on: { FETCH: { target: 'loading', cond: 'canFetch' } },
+            after: { 500: 'loading' },
+          },
+          loading: {
+            invoke: { src: 'fetchData', id: 'fetchData', onDone: 'success', onError: 'failure' },
+            initial: 'waiting',
+            states: {
+              waiting: { on: { CANCEL: '#fetch.idle' } },
+              hist: { type: 'history', history: 'deep', target: 'waiting' },
+            },
+          },
+          success: {
+            type: 'parallel',
+            states: { a: {}, b: {} },
+            onDone: 'done',
+          },
+          failure: { always: { target: 'idle', cond: 'shouldRetry' } },
+          done: { type: 'final' },
+        },
+      })
+    `;
+    const machine = parseMachinesFromFile(source).machines[0];
+
+    const config = fromSCXML(toSCXML(machine));
+    const reparsed = parseMachinesFromFile(printMachineConfig(config));
+
+    expect(reparsed.diagnostics).toEqual([]);
+    expect(reparsed.machines[0].toConfig()).toEqual(machine.toConfig());
+    expect(config.states?.loading.states?.hist).toEqual({
+      type: "history",
+      history: "deep",
+      target: "waiting",
+    });
+  });
+
+  it("Should read initial elements, event lists and delayed sends", () => {
+    const config = fromSCXML(`<?xml version="1.0"?>
+      <!-- A hand-written document -->
+      <scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0">
+        <state id="traffic">
+          <initial><transition target="red"/></initial>
+          <state id="green">
+            <transition event="TIMER SKIP" target="red"/>
+          </state>
+          <state id="red">
+            <onentry><send event="TIMER" delay="2s"/></onentry>
+            <transition event="TIMER" target="green"/>
+            <transition event="EMERGENCY" target="off"/>
+          </state>
+        </state>
+        <final id="off"/>
+      </scxml>
+    `);
+
+    expect(config).toEqual({
+      initial: "traffic",
+      states: {
+        traffic: {
+          initial: "red",
+          states: {
+            green: { on: { TIMER: "red", SKIP: "red" } },
+            red: {
+              entry: {
+                type: "xstate.send",
+                event: { type: "TIMER" },
+                delay: 2000,
+              },
+              on: { TIMER: "green", EMERGENCY: "#(machine).off" },
+            },
+          },
+        },
+        off: { type: "final" },
+      },
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { parseMachinesFromFile } from "..";
+import { applyTextEdits } from "../sourceEdits";
+import { ResolverHost } from "../types";
+
+const machineSource = `// The light
+const machine = createMachine({
+  initial: 'green',
+  states: {
+    green: {
+      on: { TIMER: 'yellow' },
+    },
+    // Slows the traffic down
+    yellow: {
+      on: {
+        TIMER: 'red', // Not for long
+      },
+    },
+    red: {},
+  },
+});
+`;
+
+const getMachine = (fileContents: string) => {
+  return parseMachinesFromFile(fileContents).machines[0];
+};
+
+describe("Source edits", () => {
+  it("Should add a state node, keeping the trailing comma style", () => {
+    const machine = getMachine(machineSource);
+
+    expect(
+      applyTextEdits(machineSource, machine.addState([], "flashing")),
+    ).toContain(`    red: {},\n    flashing: {},\n  },`);
+
+    expect(
+      applyTextEdits(machineSource, machine.addState(["red"], "walk")),
+    ).toContain(`    red: { states: { walk: {} } },`);
+  });
+
+  it("Should remove a state node alongside the comments above it", () => {
+    const machine = getMachine(machineSource);
+
+    expect(applyTextEdits(machineSource, machine.removeState(["yellow"])))
+      .toEqual(`// The light
+const machine = createMachine({
+  initial: 'green',
+  states: {
+    green: {
+      on: { TIMER: 'yellow' },
+    },
+    red: {},
+  },
+});
+`);
+  });
+
+  it("Should add transitions next to the existing ones", () => {
+    const machine = getMachine(machineSource);
+
+    expect(machine.addTransition(["green"], "TIMER", "red")).toEqual([]);
+
+    expect(
+      applyTextEdits(
+        machineSource,
+        machine.addTransition(["yellow"], "EMERGENCY", "red"),
+      ),
+    ).toContain(`        TIMER: 'red', // Not for long
+        EMERGENCY: 'red',
+      },`);
+
+    expect(
+      applyTextEdits(
+        machineSource,
+        machine.addTransition(["red"], "TIMER", "green"),
+      ),
+    ).toContain(`red: { on: { TIMER: 'green' } },`);
+  });
+
+  it("Should add transitions after guarded ones for the same event", () => {
+    const fileContents = `createMachine({
+  states: {
+    green: {
+      on: { TIMER: { target: 'yellow', cond: 'isBusy' } },
+    },
+    yellow: {
+      on: { TIMER: [{ target: 'red', cond: 'isBusy' }] },
+    },
+    red: {},
+  },
+});
+`;
+    const machine = getMachine(fileContents);
+
+    expect(
+      applyTextEdits(
+        fileContents,
+        machine.addTransition(["green"], "TIMER", "red"),
+      ),
+    ).toContain(
+      `on: { TIMER: [{ target: 'yellow', cond: 'isBusy' }, 'red'] },`,
+    );
+
+    expect(
+      applyTextEdits(
+        fileContents,
+        machine.addTransition(["yellow"], "TIMER", "green"),
+      ),
+    ).toContain(`on: { TIMER: [{ target: 'red', cond: 'isBusy' }, 'green'] },`);
+  });
+
+  it("Should rename events and set the initial state", () => {
+    const machine = getMachine(machineSource);
+
+    const renamed = applyTextEdits(
+      machineSource,
+      machine.renameEvent("TIMER", "next-light"),
+    );
+
+    expect(renamed).toContain(`on: { 'next-light': 'yellow' },`);
+    expect(renamed).toContain(`'next-light': 'red', // Not for long`);
+
+    expect(
+      applyTextEdits(machineSource, machine.setInitial([], "red")),
+    ).toContain(`initial: 'red',`);
+
+    expect(applyTextEdits(machineSource, machine.setInitial(["yellow"], "a")))
+      .toContain(`    yellow: {
+      initial: 'a',
+      on: {`);
+  });
+
+  it("Should rename the events sent by actions and their declared types", () => {
+    const fileContents = `type Events = { type: 'TIMER' } | { type: 'RESET'; to: string };
+
+createMachine<Context, Events>({
+  entry: send('TIMER'),
+  on: {
+    TIMER: { actions: [raise({ type: 'TIMER' }), sendTo('child', 'TIMER')] },
+    RESET: { actions: sendParent({ type: 'RESET' }) },
+  },
+});
+`;
+    const machine = getMachine(fileContents);
+
+    expect(applyTextEdits(fileContents, machine.renameEvent("TIMER", "TICK")))
+      .toEqual(`type Events = { type: 'TICK' } | { type: 'RESET'; to: string };
+
+createMachine<Context, Events>({
+  entry: send('TICK'),
+  on: {
+    TICK: { actions: [raise({ type: 'TICK' }), sendTo('child', 'TICK')] },
+    RESET: { actions: sendParent({ type: 'RESET' }) },
+  },
+});
+`);
+  });
+
+  it("Should edit nodes where identifiers were declared", () => {
+    const fileContents = `
+const TIMER = "TIMER";
+const states = { green: { on: { [TIMER]: "green" } } };
+
+createMachine({ states });
+`;
+    const machine = getMachine(fileContents);
+
+    const edited = applyTextEdits(fileContents, [
+      ...machine.renameEvent("TIMER", "NEXT"),
+      ...machine.addState([], "red"),
+    ]);
+
+    expect(edited).toEqual(`
+const TIMER = "NEXT";
+const states = { green: { on: { [TIMER]: "green" } }, red: {} };
+
+createMachine({ states });
+`);
+  });
+
+  it("Should point edits to spread nodes at the file they came from", () => {
+    const files: Record<string, string> = {
+      "/states.ts": `export const states = {\n  a: {},\n  b: {},\n};\n`,
+    };
+    const resolverHost: ResolverHost = {
+      readFile: (filePath) => files[filePath],
+      resolveModule: () => "/states.ts",
+    };
+
+    const { machines } = parseMachinesFromFile(
+      `
+      import { states } from './states';
+      createMachine({ states: { ...states, c: {} } });
+    `,
+      { filePath: "/machine.ts", resolverHost },
+    );
+
+    const edits = machines[0].removeState(["b"]);
+
+    expect(edits).toHaveLength(1);
+    expect(edits[0].filePath).toEqual("/states.ts");
+    expect(edits[0].range.start).toEqual({ line: 3, column: 0, offset: 33 });
+    expect(applyTextEdits(files["/states.ts"], edits)).toEqual(
+      `export const states = {\n  a: {},\n};\n`,
+    );
+  });
+
+  it("Should not mistake a state node for one whose keys join the same", () => {
+    const fileContents = `createMachine({
+  states: {
+    a: { states: { b: {} } },
+    ab: {},
+  },
+});
+`;
+    const machine = getMachine(fileContents);
+
+    expect(machine.getStateNodeByPath(["ab"])?.path).toEqual(["ab"]);
+    expect(applyTextEdits(fileContents, machine.addState(["ab"], "c")))
+      .toContain(`    a: { states: { b: {} } },
+    ab: { states: { c: {} } },`);
+  });
+
+  it("Should return no edits for unknown state nodes", () => {
+    const machine = getMachine(machineSource);
+
+    expect(machine.addState(["missing"], "a")).toEqual([]);
+    expect(machine.removeState(["missing"])).toEqual([]);
+    expect(machine.removeState([])).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { parseMachinesFromFile } from "..";
+
+const getLines = (fileContents: string) => {
+  const sourceMap =
+    parseMachinesFromFile(fileContents).machines[0].getSourceMap();
+
+  const lines: Record<string, number | undefined> = {};
+
+  Object.keys(sourceMap).forEach((pointer) => {
+    lines[pointer] = sourceMap[pointer].location?.start.line;
+  });
+
+  return lines;
+};
+
+describe("Source maps", () => {
+  it("Should map config pointers to their source", () => {
+    const lines = getLines(`createMachine({
+  initial: 'idle',
+  states: {
+    idle: {
+      on: {
+        FETCH: 'loading',
+        'a/b': [
+          { target: 'loading', cond: 'isReady' },
+          { actions: ['log', 'track'] },
+        ],
+      },
+    },
+    loading: {},
+  },
+})`);
+
+    expect(lines).toMatchObject({
+      "": 1,
+      "/initial": 2,
+      "/states": 3,
+      "/states/idle": 4,
+      "/states/idle/on": 5,
+      "/states/idle/on/FETCH": 6,
+      "/states/idle/on/FETCH/0": 6,
+      "/states/idle/on/FETCH/target": 6,
+      "/states/idle/on/FETCH/0/target": 6,
+      "/states/idle/on/a~1b": 7,
+      "/states/idle/on/a~1b/0/target": 8,
+      "/states/idle/on/a~1b/0/cond": 8,
+      "/states/idle/on/a~1b/1/actions/1": 9,
+      "/states/loading": 13,
+    });
+  });
+
+  it("Should point to values declared elsewhere in the file", () => {
+    const lines = getLines(`const loading = {
+  entry: 'showSpinner',
+};
+
+const otherStates = {
+  done: { type: 'final' },
+};
+
+createMachine({
+  states: {
+    loading,
+    ...otherStates,
+  },
+})`);
+
+    expect(lines).toMatchObject({
+      "/states/loading": 1,
+      "/states/loading/entry": 2,
+      "/states/done": 6,
+      "/states/done/type": 6,
+    });
+  });
+
+  it("Should return the config alongside the source map", () => {
+    const machine = parseMachinesFromFile(`createMachine({ id: 'a' })`, {
+      filePath: "/machine.ts",
+    }).machines[0];
+
+    const { config, sourceMap } = machine.toConfigWithLocations();
+
+    expect(config).toEqual({ id: "a" });
+    expect(sourceMap["/id"]).toEqual({
+      node: expect.objectContaining({ type: "StringLiteral" }),
+      location: expect.objectContaining({
+        start: expect.objectContaining({ line: 1, column: 20 }),
+      }),
+      filePath: "/machine.ts",
+    });
+  });
+});
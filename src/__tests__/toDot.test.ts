@@ -0,0 +1,103 @@
+import { parseMachinesFromFile } from "..";
+import { toDot } from "../toDot";
+
+const fileContents = `
+  createMachine({
+    id: 'fetch',
+    initial: 'idle',
+    states: {
+      idle: {
+        tags: 'waiting',
+        on: { FETCH: { target: 'loading', cond: 'canFetch', actions: 'log' } },
+        after: { 1000: 'loading' },
+      },
+      loading: {
+        initial: 'request',
+        states: {
+          request: { on: { RETRY: 'backoff' } },
+          backoff: { on: { RESOLVE: '#fetch.done' } },
+          hist: { type: 'history', history: 'deep' },
+        },
+      },
+      done: { type: 'final' },
+    },
+  })
+`;
+
+describe("toDot", () => {
+  const machine = parseMachinesFromFile(fileContents).machines[0];
+
+  it("Should print compound states as clusters and color states by tags", () => {
+    expect(toDot(machine, { tagColors: { waiting: "yellow" } }))
+      .toEqual(`digraph "fetch" {
+  compound=true;
+  rankdir=LR;
+  node [shape="box", style="rounded"];
+  "fetch" [shape="point"];
+  "fetch.idle" [label="idle", style="rounded,filled", fillcolor="yellow"];
+  subgraph "cluster_fetch.loading" {
+    label="loading";
+    style="rounded";
+    "fetch.loading" [shape="point"];
+    "fetch.loading.request" [label="request"];
+    "fetch.loading.backoff" [label="backoff"];
+    "fetch.loading.hist" [label="H*", shape="circle"];
+    "fetch.loading" -> "fetch.loading.request";
+  }
+  "fetch.done" [label="done", peripheries="2"];
+  "fetch" -> "fetch.idle";
+  "fetch.idle" -> "fetch.loading" [label="FETCH [canFetch] / log", lhead="cluster_fetch.loading"];
+  "fetch.idle" -> "fetch.loading" [label="after(1000)", lhead="cluster_fetch.loading"];
+  "fetch.loading.request" -> "fetch.loading.backoff" [label="RETRY"];
+  "fetch.loading.backoff" -> "fetch.done" [label="RESOLVE"];
+}
+`);
+  });
+
+  it("Should collapse deep state nodes and hide actions", () => {
+    expect(toDot(machine, { collapseDepth: 1, hideActions: true }))
+      .toEqual(`digraph "fetch" {
+  compound=true;
+  rankdir=LR;
+  node [shape="box", style="rounded"];
+  "fetch" [shape="point"];
+  "fetch.idle" [label="idle"];
+  "fetch.loading" [label="loading"];
+  "fetch.done" [label="done", peripheries="2"];
+  "fetch" -> "fetch.idle";
+  "fetch.idle" -> "fetch.loading" [label="FETCH [canFetch]"];
+  "fetch.idle" -> "fetch.loading" [label="after(1000)"];
+  "fetch.loading" -> "fetch.done" [label="RESOLVE"];
+}
+`);
+  });
+
+  it("Should draw the transitions of the root from its point", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        id: 'player',
+        initial: 'playing',
+        on: { STOP: 'stopped' },
+        states: {
+          playing: { on: { PAUSE: 'paused' } },
+          paused: {},
+          stopped: {},
+        },
+      })
+    `);
+
+    expect(toDot(result.machines[0])).toEqual(`digraph "player" {
+  compound=true;
+  rankdir=LR;
+  node [shape="box", style="rounded"];
+  "player" [shape="point"];
+  "player.playing" [label="playing"];
+  "player.paused" [label="paused"];
+  "player.stopped" [label="stopped"];
+  "player" -> "player.playing";
+  "player" -> "player.stopped" [label="STOP"];
+  "player.playing" -> "player.paused" [label="PAUSE"];
+}
+`);
+  });
+});
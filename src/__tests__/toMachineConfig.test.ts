@@ -0,0 +1,42 @@
+import { parseMachinesFromFile } from "..";
+
+describe("toMachineConfig", () => {
+  it("Should turn values it can't serialise into placeholders", () => {
+    const config = parseMachinesFromFile(`
+      createMachine({
+        tsTypes: {} as import('./machine.typegen').Typegen0,
+        meta: { description: 'Loads things', createdAt: Date.now() },
+        invoke: {
+          src: 'child',
+          data: { id: (context) => context.id },
+        },
+        states: {
+          done: { type: 'final', data: (context) => context.result },
+        },
+      })
+    `).machines[0].toConfig();
+
+    expect(config).toEqual({
+      tsTypes: {},
+      meta: {
+        description: "Loads things",
+        createdAt: { $placeholder: "call", source: "Date.now()" },
+      },
+      invoke: {
+        src: "child",
+        data: {
+          id: { $placeholder: "function", source: "(context) => context.id" },
+        },
+      },
+      states: {
+        done: {
+          type: "final",
+          data: {
+            $placeholder: "function",
+            source: "(context) => context.result",
+          },
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { parseMachinesFromFile } from "..";
+import { toMermaid } from "../toMermaid";
+
+describe("toMermaid", () => {
+  it("Should print states, initial arrows, finals and transition labels", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        initial: 'idle',
+        states: {
+          idle: {
+            on: {
+              FETCH: { target: 'loading', cond: 'canFetch', actions: ['log', assign({})] },
+            },
+            after: { 1000: 'loading' },
+          },
+          loading: {
+            invoke: { src: 'fetchData', onDone: 'done', onError: 'idle' },
+            always: { target: 'done', cond: () => true },
+          },
+          done: { type: 'final' },
+        },
+      })
+    `);
+
+    expect(toMermaid(result.machines[0])).toEqual(`stateDiagram-v2
+  [*] --> idle
+  idle
+  idle --> loading : FETCH [canFetch] / log, xstate.assign
+  idle --> loading : after(1000)
+  loading
+  loading --> done : onDone
+  loading --> idle : onError
+  loading --> done : always [inline]
+  done
+  done --> [*]
+`);
+  });
+
+  it("Should nest compound states and separate parallel regions", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        initial: 'editing',
+        states: {
+          editing: {
+            type: 'parallel',
+            states: {
+              bold: {
+                initial: 'off',
+                states: { off: { on: { TOGGLE: 'on' } }, on: {} },
+              },
+              italic: {
+                initial: 'off',
+                states: { off: {}, on: {} },
+              },
+            },
+            on: { SAVE: { actions: 'save' } },
+          },
+        },
+      })
+    `);
+
+    expect(toMermaid(result.machines[0])).toEqual(`stateDiagram-v2
+  [*] --> editing
+  state editing {
+    state bold {
+      [*] --> editing__bold__off
+      state "off" as editing__bold__off
+      editing__bold__off --> editing__bold__on : TOGGLE
+      state "on" as editing__bold__on
+    }
+    --
+    state italic {
+      [*] --> editing__italic__off
+      state "off" as editing__italic__off
+      state "on" as editing__italic__on
+    }
+  }
+  editing --> editing : SAVE / save
+`);
+  });
+
+  it("Should draw the root as a state holding the others when it has transitions", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        id: 'player',
+        initial: 'playing',
+        on: { STOP: 'stopped' },
+        states: {
+          playing: { on: { PAUSE: 'paused' } },
+          paused: {},
+          stopped: {},
+        },
+      })
+    `);
+
+    expect(toMermaid(result.machines[0])).toEqual(`stateDiagram-v2
+  state "player" as machine
+  state machine {
+    [*] --> playing
+    playing
+    playing --> paused : PAUSE
+    paused
+    stopped
+  }
+  machine --> stopped : STOP
+`);
+  });
+
+  it("Should print transitions leaving their parent once every state is declared", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        initial: 'loading',
+        states: {
+          loading: {
+            initial: 'a',
+            states: {
+              a: { on: { NEXT: 'b', DONE: '#done' } },
+              b: { on: { FAIL: '#failure' } },
+            },
+          },
+          success: { id: 'done' },
+          failure: { id: 'failure', on: { RETRY: 'loading.b' } },
+        },
+      })
+    `);
+
+    expect(toMermaid(result.machines[0])).toEqual(`stateDiagram-v2
+  [*] --> loading
+  state loading {
+    [*] --> a
+    a
+    a --> b : NEXT
+    b
+  }
+  success
+  failure
+  a --> success : DONE
+  b --> failure : FAIL
+  failure --> b : RETRY
+`);
+  });
+});
@@ -0,0 +1,185 @@
+import { parseMachinesFromFile } from "..";
+import { toPlantUML } from "../toPlantUML";
+
+describe("toPlantUML", () => {
+  it("Should print states, notes, finals and transition labels", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        initial: 'idle',
+        states: {
+          idle: {
+            meta: { description: 'Waiting for the user' },
+            on: {
+              FETCH: { target: 'loading', cond: 'canFetch', actions: ['log', assign({})] },
+            },
+          },
+          loading: {
+            meta: { description: 'Fetching\\nthe data' },
+            invoke: { src: 'fetchData', onDone: 'done', onError: 'idle' },
+          },
+          done: { type: 'final' },
+        },
+      })
+    `);
+
+    expect(toPlantUML(result.machines[0])).toEqual(`@startuml
+[*] --> idle
+state idle
+note right of idle : Waiting for the user
+idle --> loading : FETCH [canFetch] / log, xstate.assign
+state loading
+note right of loading
+  Fetching
+  the data
+end note
+loading --> done : onDone
+loading --> idle : onError
+state done
+done --> [*]
+@enduml
+`);
+  });
+
+  it("Should print composite states, concurrent regions and history", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        initial: 'editing',
+        states: {
+          editing: {
+            type: 'parallel',
+            states: {
+              bold: {
+                initial: 'off',
+                states: { off: { on: { TOGGLE: 'on' } }, on: {} },
+              },
+              italic: {
+                initial: 'off',
+                states: { off: {}, on: {}, hist: { type: 'history' } },
+              },
+              deep: { type: 'history', history: 'deep' },
+            },
+            on: { PAUSE: 'paused' },
+          },
+          paused: {
+            on: { RESUME: 'editing.deep', RESTORE: 'editing.italic.hist' },
+          },
+        },
+      })
+    `);
+
+    expect(toPlantUML(result.machines[0])).toEqual(`@startuml
+[*] --> editing
+state editing {
+  state bold {
+    [*] --> editing__bold__off
+    state "off" as editing__bold__off
+    editing__bold__off --> editing__bold__on : TOGGLE
+    state "on" as editing__bold__on
+  }
+  --
+  state italic {
+    [*] --> editing__italic__off
+    state "off" as editing__italic__off
+    state "on" as editing__italic__on
+  }
+}
+editing --> paused : PAUSE
+state paused
+paused --> editing[H*] : RESUME
+paused --> italic[H] : RESTORE
+@enduml
+`);
+  });
+
+  it("Should draw the root as a state holding the others when it has transitions", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        id: 'player',
+        initial: 'playing',
+        on: { STOP: 'stopped' },
+        states: {
+          playing: { on: { PAUSE: 'paused' } },
+          paused: {},
+          stopped: {},
+        },
+      })
+    `);
+
+    expect(toPlantUML(result.machines[0])).toEqual(`@startuml
+state "player" as machine {
+  [*] --> playing
+  state playing
+  playing --> paused : PAUSE
+  state paused
+  state stopped
+}
+machine --> stopped : STOP
+@enduml
+`);
+  });
+
+  it("Should keep ids unique when sanitized or prefixed keys collide", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        initial: 'a-b',
+        states: {
+          'a-b': { on: { NEXT: 'a_b' } },
+          a_b: { on: { NEXT: 'x__y' } },
+          x__y: {},
+          x: { initial: 'y', states: { y: {} } },
+          y: {},
+        },
+      })
+    `);
+
+    expect(toPlantUML(result.machines[0])).toEqual(`@startuml
+[*] --> a_b
+state "a-b" as a_b
+a_b --> a_b_2 : NEXT
+state "a_b" as a_b_2
+a_b_2 --> x__y : NEXT
+state x__y
+state x {
+  [*] --> x__y_2
+  state "y" as x__y_2
+}
+state y
+@enduml
+`);
+  });
+
+  it("Should print transitions leaving their parent outside composite states", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        initial: 'loading',
+        states: {
+          loading: {
+            initial: 'a',
+            states: {
+              a: { on: { NEXT: 'b', DONE: '#done' } },
+              b: { on: { FAIL: '#failure' } },
+            },
+          },
+          success: { id: 'done' },
+          failure: { id: 'failure', on: { RETRY: 'loading.b' } },
+        },
+      })
+    `);
+
+    expect(toPlantUML(result.machines[0])).toEqual(`@startuml
+[*] --> loading
+state loading {
+  [*] --> a
+  state a
+  a --> b : NEXT
+  state b
+}
+state success
+state failure
+a --> success : DONE
+b --> failure : FAIL
+failure --> b : RETRY
+@enduml
+`);
+  });
+});
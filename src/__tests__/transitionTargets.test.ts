@@ -0,0 +1,111 @@
+import { parseMachinesFromFile } from "..";
+
+const getResolvedTargets = (fileContents: string) => {
+  const result = parseMachinesFromFile(fileContents);
+
+  return {
+    targets: result.machines[0]
+      .getResolvedTransitionTargets()
+      .map(({ fromPath, target, resolvedPath }) => ({
+        fromPath,
+        target: target.value,
+        resolvedPath,
+      })),
+    diagnostics: result.diagnostics,
+  };
+};
+
+describe("Transition targets", () => {
+  it("Should resolve siblings, children, ids and deep paths", () => {
+    const { targets, diagnostics } = getResolvedTargets(`
+      createMachine({
+        initial: 'idle',
+        on: { RESET: '.idle' },
+        states: {
+          idle: {
+            on: {
+              START: 'running',
+              FOCUS: 'running.focused',
+              JUMP: '#deep.leaf',
+              ROOT: '#(machine).idle',
+            },
+          },
+          running: {
+            id: 'deep',
+            on: { FOCUS: '.focused' },
+            states: {
+              focused: {},
+              leaf: {},
+            },
+          },
+        },
+      })
+    `);
+
+    expect(diagnostics).toEqual([]);
+    expect(targets).toEqual([
+      { fromPath: [], target: ".idle", resolvedPath: ["idle"] },
+      { fromPath: ["idle"], target: "running", resolvedPath: ["running"] },
+      {
+        fromPath: ["idle"],
+        target: "running.focused",
+        resolvedPath: ["running", "focused"],
+      },
+      {
+        fromPath: ["idle"],
+        target: "#deep.leaf",
+        resolvedPath: ["running", "leaf"],
+      },
+      { fromPath: ["idle"], target: "#(machine).idle", resolvedPath: ["idle"] },
+      {
+        fromPath: ["running"],
+        target: ".focused",
+        resolvedPath: ["running", "focused"],
+      },
+    ]);
+  });
+
+  it("Should use custom delimiters", () => {
+    const { targets } = getResolvedTargets(`
+      createMachine({
+        id: 'root',
+        delimiter: '/',
+        states: {
+          a: {
+            on: { NEXT: 'b/c', DEEP: '#root/b/c' },
+          },
+          b: { states: { c: {} } },
+        },
+      })
+    `);
+
+    expect(targets.map((target) => target.resolvedPath)).toEqual([
+      ["b", "c"],
+      ["b", "c"],
+    ]);
+  });
+
+  it("Should report targets which cannot be resolved", () => {
+    const { targets, diagnostics } = getResolvedTargets(`
+      createMachine({
+        states: {
+          a: {
+            on: { NEXT: 'missing' },
+          },
+        },
+      })
+    `);
+
+    expect(targets[0].resolvedPath).toBeUndefined();
+    expect(diagnostics).toEqual([
+      {
+        code: "unresolved-target",
+        severity: "error",
+        message: `Could not resolve the target "missing" of a transition from state "a"`,
+        location: expect.objectContaining({
+          start: expect.objectContaining({ line: 5, column: 24 }),
+        }),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { parseMachinesFromFile } from "..";
+import { generateTypegenFile, getTypegenData } from "../typegen";
+
+describe("Typegen", () => {
+  it("Should generate the typegen interface of a machine", () => {
+    const { machines } = parseMachinesFromFile(`
+      createMachine(
+        {
+          tsTypes: {} as import("./fetch.typegen").Typegen0,
+          initial: 'idle',
+          states: {
+            idle: {
+              entry: 'logIdle',
+              on: {
+                FETCH: { target: 'loading', cond: 'canFetch', actions: 'track' },
+              },
+            },
+            loading: {
+              tags: ['busy'],
+              invoke: { src: 'fetchData', onDone: 'done', onError: 'idle' },
+              after: { TIMEOUT: 'idle' },
+              exit: 'stopSpinner',
+              initial: 'a',
+              states: { a: {}, b: {} },
+            },
+            done: { type: 'final' },
+          },
+        },
+        { actions: { logIdle: () => {} } },
+      )
+    `);
+
+    expect(generateTypegenFile(machines).fileContents)
+      .toEqual(`// This file was automatically generated. Edits will be overwritten
+
+export interface Typegen0 {
+  "@@xstate/typegen": true;
+  eventsCausingActions: {
+    track: "FETCH";
+    logIdle: "xstate.init" | "xstate.after(TIMEOUT)#(machine).loading" | "error.platform.fetchData";
+    stopSpinner: "xstate.after(TIMEOUT)#(machine).loading" | "done.invoke.fetchData" | "error.platform.fetchData";
+  };
+  internalEvents: {
+    "xstate.init": { type: "xstate.init" };
+    "xstate.after(TIMEOUT)#(machine).loading": { type: "xstate.after(TIMEOUT)#(machine).loading" };
+    "done.invoke.fetchData": { type: "done.invoke.fetchData"; data: unknown };
+    "error.platform.fetchData": { type: "error.platform.fetchData"; data: unknown };
+  };
+  invokeSrcNameMap: {
+    fetchData: "done.invoke.fetchData";
+  };
+  missingImplementations: {
+    actions: "track" | "stopSpinner";
+    services: "fetchData";
+    guards: "canFetch";
+    delays: "TIMEOUT";
+  };
+  eventsCausingServices: {
+    fetchData: "FETCH";
+  };
+  eventsCausingGuards: {
+    canFetch: "FETCH";
+  };
+  eventsCausingDelays: {
+    TIMEOUT: "FETCH";
+  };
+  matchesStates: "idle" | "loading" | "loading.a" | "loading.b" | "done" | { loading?: "a" | "b" };
+  tags: "busy";
+}
+`);
+  });
+
+  it("Should only exit and enter the state nodes a transition leaves", () => {
+    const { machines } = parseMachinesFromFile(`
+      createMachine({
+        initial: 'a',
+        states: {
+          a: {
+            exit: 'exitA',
+            initial: 'a1',
+            states: {
+              a1: { exit: 'exitA1', on: { NEXT: 'a2', LEAVE: '#b' } },
+              a2: { entry: 'enterA2' },
+            },
+          },
+          b: { id: 'b', entry: 'enterB' },
+        },
+      })
+    `);
+
+    expect(getTypegenData(machines[0]).eventsCausingActions).toEqual({
+      enterA2: ["NEXT"],
+      enterB: ["LEAVE"],
+      exitA: ["LEAVE"],
+      exitA1: ["NEXT", "LEAVE"],
+    });
+  });
+
+  it("Should use xstate.always for eventless transitions", () => {
+    const { machines } = parseMachinesFromFile(`
+      createMachine({
+        initial: 'a',
+        states: {
+          a: { always: { target: 'b', cond: 'isReady', actions: 'log' } },
+          b: {},
+        },
+      })
+    `);
+
+    const data = getTypegenData(machines[0]);
+
+    expect(data.eventsCausingActions).toEqual({ log: ["xstate.always"] });
+    expect(data.eventsCausingGuards).toEqual({ isReady: ["xstate.always"] });
+    expect(data.internalEvents).toContain("xstate.always");
+  });
+
+  it("Should key each machine declaring tsTypes by its callee location", () => {
+    const { machines } = parseMachinesFromFile(`
+      const first = createMachine({ tsTypes: {} });
+      const untyped = createMachine({});
+      const second = createMachine({ tsTypes: {} });
+    `);
+
+    const typegen = generateTypegenFile(machines);
+
+    expect(typegen.typegenNames).toEqual({
+      "2:20": "Typegen0",
+      "4:21": "Typegen1",
+    });
+    expect(typegen.fileContents).toContain("export interface Typegen1 {");
+  });
+});
@@ -0,0 +1,141 @@
+import { parseMachinesFromFile } from "..";
+
+describe("XState v5", () => {
+  it("Should treat the setup object as the machine options", () => {
+    const result = parseMachinesFromFile(`
+      const machine = setup({
+        actions: { notify: () => {} },
+        guards: { isReady: () => true },
+        actors: { fetchUser: fromPromise(async () => {}) },
+        delays: { timeout: 1000 },
+      }).createMachine({
+        initial: 'idle',
+        states: {
+          idle: {
+            invoke: { src: 'fetchUser', systemId: 'fetcher', input: { userId: 42 } },
+            on: {
+              START: { target: 'running', guard: 'isReady', actions: 'notify' },
+            },
+          },
+          running: {},
+        },
+      });
+    `);
+
+    const machine = result.machines[0];
+
+    expect(machine.toConfig()).toEqual({
+      initial: "idle",
+      states: {
+        idle: {
+          invoke: {
+            src: "fetchUser",
+            systemId: "fetcher",
+            input: { userId: 42 },
+          },
+          on: {
+            START: { target: "running", guard: "isReady", actions: "notify" },
+          },
+        },
+        running: {},
+      },
+    });
+    expect(machine.getAllConds(["named"]).map((cond) => cond.name)).toEqual([
+      "isReady",
+    ]);
+    expect(machine.getServiceImplementation("fetchUser")).toBeTruthy();
+    expect(machine.getImplementationReport()).toEqual({
+      missing: [],
+      unused: [expect.objectContaining({ type: "delay", name: "timeout" })],
+    });
+  });
+
+  it("Should parse the v5 action creators", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        entry: [
+          sendTo('child', { type: 'PING' }, { delay: 100 }),
+          sendTo(({ context }) => context.ref, 'PONG'),
+          raise({ type: 'NEXT' }),
+          emit({ type: 'notified' }),
+          enqueueActions(({ enqueue }) => {}),
+          spawnChild('worker', { id: 'worker-1' }),
+          { type: 'track', params: { page: 'home' } },
+        ],
+        on: {
+          EVENT: {
+            guard: { type: 'isAllowed', params: { level: 2 } },
+            actions: raise('OTHER'),
+          },
+        },
+      })
+    `);
+
+    const machine = result.machines[0];
+
+    expect(machine.toConfig()?.entry).toEqual([
+      {
+        type: "xstate.sendTo",
+        to: "child",
+        event: { type: "PING" },
+        delay: 100,
+      },
+      { type: "xstate.sendTo", to: "_inline", event: { type: "PONG" } },
+      { type: "xstate.raise", event: "NEXT" },
+      { type: "xstate.emit", event: { type: "notified" } },
+      { type: "xstate.enqueueActions" },
+      { type: "xstate.spawnChild", src: "worker", id: "worker-1" },
+      { type: "track" },
+    ]);
+    expect(machine.toConfig()?.on).toEqual({
+      EVENT: {
+        guard: { type: "isAllowed" },
+        actions: { type: "xstate.raise", event: "OTHER" },
+      },
+    });
+    expect(
+      machine.getAllActions(["named"]).map((action) => action.name),
+    ).toEqual(["track"]);
+    expect(machine.getAllConds(["named"]).map((cond) => cond.name)).toEqual([
+      "isAllowed",
+    ]);
+  });
+
+  it("Should treat inline actor logic as an inline src", () => {
+    const result = parseMachinesFromFile(`
+      createMachine({
+        invoke: { src: fromPromise(async () => {}) },
+      })
+    `);
+
+    expect(result.machines[0].getAllServices(["inline"])).toHaveLength(1);
+    expect(result.machines[0].getAllServices(["unknown"])).toHaveLength(0);
+  });
+
+  it("Should collect the guards combined by and, or and not", () => {
+    const result = parseMachinesFromFile(`
+      setup({
+        guards: {
+          isReady: () => true,
+          isAdmin: () => true,
+          isBlocked: () => false,
+        },
+      }).createMachine({
+        on: {
+          START: {
+            guard: and(['isReady', or(['isAdmin', not('isBlocked')])]),
+          },
+        },
+      });
+    `);
+
+    const machine = result.machines[0];
+
+    expect(machine.getAllConds(["named"]).map((cond) => cond.name)).toEqual([
+      "isReady",
+      "isAdmin",
+      "isBlocked",
+    ]);
+    expect(machine.getImplementationReport().unused).toEqual([]);
+  });
+});
@@ -10,18 +10,23 @@ import {
   maybeArrayOf,
   namedFunctionCall,
   objectTypeWithKnownKeys,
+  objectWithType,
 } from "./utils";
 import {
   AfterAction,
   CancelAction,
   DoneAction,
+  EmitAction,
+  EnqueueActionsAction,
   EscalateAction,
+  EventArgument,
   LogAction,
   PureAction,
   RaiseAction,
   RespondAction,
   SendParentAction,
   SendUpdateAction,
+  SpawnChildAction,
   StartAction,
   StopAction,
 } from "./namedActions";
@@ -32,6 +37,7 @@ import { maybeTsAsExpression } from "./tsAsExpression";
 import { wrapParserResult } from "./wrapParserResult";
 import { DeclarationType } from "./types";
 import { INLINE_IMPLEMENTATION_TYPE } from "./constants";
+import { ModelEventCreatorCall, modelMethodCall } from "./model";
 
 export interface ActionNode {
   node: t.Node;
@@ -94,6 +100,18 @@ export const ActionAsString = maybeTsAsExpression(
   ),
 );
 
+export const ActionAsObject = wrapParserResult(
+  objectWithType,
+  (result): ActionNode => {
+    return {
+      action: { type: result.type },
+      node: result.node,
+      name: result.type,
+      declarationType: "named",
+    };
+  },
+);
+
 export const ActionAsNode = createParser({
   babelMatcher: t.isNode,
   parseNode: (node): ActionNode => {
@@ -192,23 +210,44 @@ const AssignFirstArg = unionType<AssignFirstArg>([
   AssignFirstArgFunction,
 ]);
 
+const toAssignAction = (
+  node: t.Node,
+  firstArg: AssignFirstArg | undefined,
+): ActionNode => {
+  const defaultAction = function anonymous() {
+    return {};
+  };
+  defaultAction.toJSON = () => {
+    return {};
+  };
+
+  return {
+    node,
+    action: assign(firstArg?.value || defaultAction),
+    name: "",
+    declarationType: "inline",
+  };
+};
+
 export const AssignAction = wrapParserResult(
   namedFunctionCall("assign", AssignFirstArg),
-  (result): ActionNode => {
-    const defaultAction = function anonymous() {
-      return {};
-    };
-    defaultAction.toJSON = () => {
-      return {};
-    };
+  (result): ActionNode => toAssignAction(result.node, result.argument1Result),
+);
 
-    return {
-      node: result.node,
-      action: assign(result.argument1Result?.value || defaultAction),
-      name: "",
-      declarationType: "inline",
-    };
-  },
+/**
+ * model.assign(assigner, 'EVENT') from a createModel model
+ */
+export const ModelAssignAction = wrapParserResult(
+  modelMethodCall("assign", AssignFirstArg, StringLiteral),
+  (result): ActionNode => toAssignAction(result.node, result.argument1Result),
+);
+
+/**
+ * model.reset(), which assigns the initial context of the model
+ */
+export const ModelResetAction = wrapParserResult(
+  modelMethodCall("reset", AnyNode),
+  (result): ActionNode => toAssignAction(result.node, undefined),
 );
 
 export const SendActionSecondArg = objectTypeWithKnownKeys({
@@ -223,7 +262,14 @@ export const SendActionSecondArg = objectTypeWithKnownKeys({
 export const SendAction = wrapParserResult(
   namedFunctionCall(
     "send",
-    unionType<{ node: t.Node; value?: string }>([StringLiteral, AnyNode]),
+    unionType<{ node: t.Node; value?: string }>([
+      StringLiteral,
+      wrapParserResult(ModelEventCreatorCall, (result) => ({
+        node: result.node,
+        value: result.type,
+      })),
+      AnyNode,
+    ]),
     SendActionSecondArg,
   ),
   (result): ActionNode => {
@@ -266,14 +312,60 @@ export const ForwardToAction = wrapParserResult(
   },
 );
 
+/**
+ * XState v5's sendTo(actorRef, event, options)
+ */
+export const SendToAction = wrapParserResult(
+  namedFunctionCall(
+    "sendTo",
+    unionType<{ node: t.Node; value?: string }>([StringLiteral, AnyNode]),
+    EventArgument,
+    objectTypeWithKnownKeys({
+      delay: unionType<{ node: t.Node; value: string | number }>([
+        NumericLiteral,
+        StringLiteral,
+      ]),
+      id: StringLiteral,
+    }),
+  ),
+  (result): ActionNode => {
+    const action: Record<string, unknown> = {
+      type: "xstate.sendTo",
+      to: result.argument1Result?.value ?? INLINE_IMPLEMENTATION_TYPE,
+      event: result.argument2Result?.type
+        ? { type: result.argument2Result.type }
+        : INLINE_IMPLEMENTATION_TYPE,
+    };
+
+    if (result.argument3Result?.delay) {
+      action.delay = result.argument3Result.delay.value;
+    }
+    if (result.argument3Result?.id) {
+      action.id = result.argument3Result.id.value;
+    }
+
+    return {
+      node: result.node,
+      action: action as Action<any, any>,
+      name: "",
+      declarationType: "inline",
+    };
+  },
+);
+
 const NamedAction = unionType([
   ChooseAction,
   AssignAction,
+  ModelAssignAction,
+  ModelResetAction,
   SendAction,
+  SendToAction,
   ForwardToAction,
   AfterAction,
   CancelAction,
   DoneAction,
+  EmitAction,
+  EnqueueActionsAction,
   EscalateAction,
   LogAction,
   PureAction,
@@ -283,11 +375,13 @@ const NamedAction = unionType([
   StartAction,
   StopAction,
   SendParentAction,
+  SpawnChildAction,
 ]);
 
 const BasicAction = unionType([
   ActionAsFunctionExpression,
   ActionAsString,
+  ActionAsObject,
   ActionAsIdentifier,
   ActionAsNode,
 ]);
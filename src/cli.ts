@@ -0,0 +1,249 @@
+#!/usr/bin/env node
+import fs from "fs";
+import path from "path";
+import { expandGlobs } from "./expandGlobs";
+import { createFileSystemResolverHost } from "./fileSystemResolverHost";
+import { MachineParseResult } from "./MachineParseResult";
+import { parseMachinesFromFile } from "./parseMachinesFromFile";
+import { generateTypegenFile } from "./typegen";
+import { Location } from "./types";
+
+export interface CliOptions {
+  patterns: string[];
+  format: "json" | "ndjson";
+  skipIgnored: boolean;
+  includeLayout: boolean;
+  includeInventory: boolean;
+  tsconfig?: string;
+  typegen: boolean;
+  help: boolean;
+}
+
+export interface CliIO {
+  cwd: string;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const HELP_TEXT = `Usage: xstate-parser [options] <files or globs...>
+
+Extracts the config of every machine in the files provided
+and prints it as JSON.
+
+Options:
+  --format <json|ndjson>  Output format (default: json)
+  --skip-ignored          Skip machines marked with xstate-ignore-next-line
+  --layout                Include the @xstate-layout string of each machine
+  --inventory             Include the named actions, services and conds
+  --tsconfig <path>       Use the paths in this tsconfig to follow imports
+  --typegen               Write a .typegen.ts file next to each file with
+                          machines declaring tsTypes, instead of printing
+  -h, --help              Show this message
+`;
+
+/**
+ * Parses the arguments passed to the CLI, throwing
+ * if an unknown flag is passed
+ */
+export const parseCliArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = {
+    patterns: [],
+    format: "json",
+    skipIgnored: false,
+    includeLayout: false,
+    includeInventory: false,
+    typegen: false,
+    help: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "--format" || arg.startsWith("--format=")) {
+      const value = arg.includes("=") ? arg.split("=")[1] : args[++i];
+      if (value !== "json" && value !== "ndjson") {
+        throw new Error(`Unknown format: ${value}. Use json or ndjson.`);
+      }
+      options.format = value;
+    } else if (arg === "--skip-ignored") {
+      options.skipIgnored = true;
+    } else if (arg === "--layout") {
+      options.includeLayout = true;
+    } else if (arg === "--inventory") {
+      options.includeInventory = true;
+    } else if (arg === "--tsconfig" || arg.startsWith("--tsconfig=")) {
+      options.tsconfig = arg.includes("=") ? arg.split("=")[1] : args[++i];
+    } else if (arg === "--typegen") {
+      options.typegen = true;
+    } else if (arg === "--help" || arg === "-h") {
+      options.help = true;
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else {
+      options.patterns.push(arg);
+    }
+  }
+
+  return options;
+};
+
+const toLocationJSON = (location: Location | undefined) => {
+  if (!location) return null;
+  return {
+    start: { line: location.start.line, column: location.start.column },
+    end: { line: location.end.line, column: location.end.column },
+  };
+};
+
+const getInventory = (machine: MachineParseResult) => {
+  return {
+    actions: machine.getAllActions(["named"]).map((action) => ({
+      name: action.name,
+      statePath: action.statePath,
+      location: toLocationJSON(action.node.loc),
+    })),
+    services: machine.getAllServices(["named"]).map((service) => ({
+      src: service.src,
+      id: service.id,
+      statePath: service.statePath,
+      location: toLocationJSON(service.srcNode?.loc),
+    })),
+    conds: machine.getAllConds(["named"]).map((cond) => ({
+      name: cond.name,
+      statePath: cond.statePath,
+      location: toLocationJSON(cond.node.loc),
+    })),
+  };
+};
+
+/**
+ * Turns a parsed machine into the record printed
+ * by the CLI
+ */
+export const getMachineRecord = (
+  machine: MachineParseResult,
+  file: string,
+  index: number,
+  options: Pick<CliOptions, "includeLayout" | "includeInventory">,
+) => {
+  return {
+    file,
+    index,
+    location: toLocationJSON(machine.ast.callee.loc),
+    config: machine.toConfig() ?? null,
+    ...(options.includeLayout && {
+      layout: machine.getLayoutComment()?.value ?? null,
+    }),
+    ...(options.includeInventory && getInventory(machine)),
+  };
+};
+
+/**
+ * Writes the typegen file of a machine file next to it,
+ * for instance machine.ts gets machine.typegen.ts
+ */
+const writeTypegenFile = (
+  machines: MachineParseResult[],
+  file: string,
+  filePath: string,
+  io: CliIO,
+) => {
+  const typegen = generateTypegenFile(machines);
+
+  if (Object.keys(typegen.typegenNames).length === 0) return;
+
+  const typegenPath = filePath.replace(/\.[cm]?[jt]sx?$/, "") + ".typegen.ts";
+
+  fs.writeFileSync(typegenPath, typegen.fileContents);
+
+  io.stdout(`Wrote ${path.relative(io.cwd, typegenPath)} for ${file}\n`);
+};
+
+/**
+ * Runs the CLI against the arguments provided, returning
+ * the exit code
+ */
+export const runCli = (args: string[], io: CliIO): number => {
+  let options: CliOptions;
+
+  try {
+    options = parseCliArgs(args);
+  } catch (e: any) {
+    io.stderr(`${e.message}\n\n${HELP_TEXT}`);
+    return 1;
+  }
+
+  if (options.help) {
+    io.stdout(HELP_TEXT);
+    return 0;
+  }
+
+  if (options.patterns.length === 0) {
+    io.stderr(`No files provided\n\n${HELP_TEXT}`);
+    return 1;
+  }
+
+  const files = expandGlobs(options.patterns, io.cwd);
+  const resolverHost = createFileSystemResolverHost({
+    tsconfigPath: options.tsconfig && path.resolve(io.cwd, options.tsconfig),
+  });
+  const records: ReturnType<typeof getMachineRecord>[] = [];
+  let exitCode = 0;
+
+  if (files.length === 0) {
+    io.stderr(`No files matched ${options.patterns.join(", ")}\n`);
+    return 1;
+  }
+
+  files.forEach((file) => {
+    const filePath = path.resolve(io.cwd, file);
+    let fileContents: string;
+    try {
+      fileContents = fs.readFileSync(filePath).toString();
+    } catch (e: any) {
+      io.stderr(`Could not read ${file}: ${e.message}\n`);
+      exitCode = 1;
+      return;
+    }
+
+    try {
+      const { machines } = parseMachinesFromFile(fileContents, {
+        filePath,
+        resolverHost,
+      });
+
+      if (options.typegen) {
+        writeTypegenFile(machines, file, filePath, io);
+        return;
+      }
+
+      machines.forEach((machine, index) => {
+        if (options.skipIgnored && machine.getIsIgnored()) return;
+        const record = getMachineRecord(machine, file, index, options);
+
+        if (options.format === "ndjson") {
+          io.stdout(`${JSON.stringify(record)}\n`);
+        } else {
+          records.push(record);
+        }
+      });
+    } catch (e: any) {
+      io.stderr(`Could not parse ${file}: ${e.message}\n`);
+      exitCode = 1;
+    }
+  });
+
+  if (options.format === "json" && !options.typegen) {
+    io.stdout(`${JSON.stringify(records, null, 2)}\n`);
+  }
+
+  return exitCode;
+};
+
+if (require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2), {
+    cwd: process.cwd(),
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  });
+}
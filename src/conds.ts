@@ -3,14 +3,20 @@ import { Condition } from "xstate";
 import { DeclarationType } from ".";
 import { INLINE_IMPLEMENTATION_TYPE } from "./constants";
 import { createParser } from "./createParser";
+import { Parser } from "./types";
 import { unionType } from "./unionType";
-import { isFunctionOrArrowFunctionExpression } from "./utils";
+import { isFunctionOrArrowFunctionExpression, objectWithType } from "./utils";
+import { wrapParserResult } from "./wrapParserResult";
 
 export interface CondNode {
   node: t.Node;
   name: string;
   cond: Condition<any, any>;
   declarationType: DeclarationType;
+  /**
+   * The guards combined by the XState v5 and, or and not
+   */
+  guards?: CondNode[];
 }
 
 const CondAsFunctionExpression = createParser({
@@ -39,6 +45,15 @@ const CondAsStringLiteral = createParser({
   },
 });
 
+const CondAsObject = wrapParserResult(objectWithType, (result): CondNode => {
+  return {
+    node: result.node,
+    name: result.type,
+    cond: { type: result.type },
+    declarationType: "named",
+  };
+});
+
 const CondAsNode = createParser({
   babelMatcher: t.isNode,
   parseNode: (node): CondNode => {
@@ -63,9 +78,46 @@ const CondAsIdentifier = createParser({
   },
 });
 
-export const Cond = unionType([
+const guardCombinators = ["and", "or", "not"];
+
+/**
+ * XState v5 guards combined with and([...]), or([...])
+ * or not(guard), which are inline but reference the
+ * guards they combine
+ */
+const CondAsCombinator = createParser({
+  babelMatcher: (node: t.Node): node is t.CallExpression =>
+    t.isCallExpression(node) &&
+    t.isIdentifier(node.callee) &&
+    guardCombinators.includes(node.callee.name),
+  parseNode: (node, context): CondNode => {
+    const [argument] = node.arguments;
+    const guardNodes = t.isArrayExpression(argument)
+      ? argument.elements
+      : [argument];
+
+    const guards: CondNode[] = [];
+
+    guardNodes.forEach((guardNode) => {
+      const guard = guardNode && Cond.parse(guardNode, context);
+      if (guard) guards.push(guard);
+    });
+
+    return {
+      node,
+      name: "",
+      cond: INLINE_IMPLEMENTATION_TYPE,
+      declarationType: "inline",
+      guards,
+    };
+  },
+});
+
+export const Cond: Parser<t.Node, CondNode> = unionType([
+  CondAsCombinator,
   CondAsFunctionExpression,
   CondAsStringLiteral,
+  CondAsObject,
   CondAsIdentifier,
   CondAsNode,
 ]);
@@ -1,4 +1,46 @@
+import * as t from "@babel/types";
 import { createParser } from "./createParser";
-import { AnyNode } from "./scalars";
+import { maybeIdentifierTo } from "./identifiers";
+import { StaticValueNode, StaticValueParser } from "./staticValue";
+import { unionType } from "./unionType";
+import { isFunctionOrArrowFunctionExpression } from "./utils";
 
-export const Context = AnyNode;
+const getReturnedExpression = (
+  node: t.ArrowFunctionExpression | t.FunctionExpression | t.ObjectMethod,
+) => {
+  if (t.isExpression(node.body)) return node.body;
+
+  const statements = node.body.body;
+  const lastStatement = statements[statements.length - 1];
+
+  if (statements.length === 1 && t.isReturnStatement(lastStatement)) {
+    return lastStatement.argument;
+  }
+};
+
+/**
+ * Handles context: () => ({ ... }) by evaluating
+ * the value the factory returns
+ */
+const ContextFactory = maybeIdentifierTo(
+  createParser({
+    babelMatcher: (
+      node: any,
+    ): node is
+      | t.ArrowFunctionExpression
+      | t.FunctionExpression
+      | t.ObjectMethod =>
+      isFunctionOrArrowFunctionExpression(node) || t.isObjectMethod(node),
+    parseNode: (node, context): StaticValueNode | undefined => {
+      const returned = getReturnedExpression(node);
+
+      if (!returned) return undefined;
+
+      const result = StaticValueParser.parse(returned, context);
+
+      return result && { node, value: result.value };
+    },
+  }),
+);
+
+export const Context = unionType([ContextFactory, StaticValueParser]);
@@ -0,0 +1,51 @@
+import * as t from "@babel/types";
+import { DiagnosticCode, DiagnosticSeverity, ParserContext } from "./types";
+
+/**
+ * Records a diagnostic against the node which caused it.
+ *
+ * Parsers can visit the same node more than once (for
+ * instance when trying each member of a union), so
+ * duplicates are only reported once
+ */
+export const reportDiagnostic = (
+  context: Pick<ParserContext, "diagnostics" | "filePath">,
+  params: {
+    code: DiagnosticCode;
+    message: string;
+    node: t.Node;
+    severity?: DiagnosticSeverity;
+  },
+) => {
+  const location = params.node.loc || null;
+
+  const isDuplicate = context.diagnostics.some(
+    (diagnostic) =>
+      diagnostic.code === params.code &&
+      diagnostic.filePath === context.filePath &&
+      diagnostic.message === params.message &&
+      diagnostic.location?.start.line === location?.start.line &&
+      diagnostic.location?.start.column === location?.start.column,
+  );
+
+  if (isDuplicate) return;
+
+  context.diagnostics.push({
+    code: params.code,
+    message: params.message,
+    severity: params.severity || "warning",
+    location,
+    ...(context.filePath && { filePath: context.filePath }),
+  });
+};
+
+/**
+ * Gives a short, human-readable description of a node
+ * for use in diagnostic messages
+ */
+export const describeNode = (node: t.Node): string => {
+  if (t.isIdentifier(node)) {
+    return `identifier "${node.name}"`;
+  }
+  return node.type;
+};
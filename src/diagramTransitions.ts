@@ -0,0 +1,176 @@
+import { ActionNode } from "./actions";
+import { CondNode } from "./conds";
+import {
+  MachineParseResult,
+  MachineParseResultStateNode,
+  TransitionKind,
+} from "./MachineParseResult";
+import { getPathKey } from "./utils";
+
+/**
+ * A transition as the diagram exporters draw it
+ */
+export interface DiagramTransition {
+  fromPath: string[];
+  kind: TransitionKind;
+  /**
+   * The event of on transitions, or the delay
+   * of after transitions
+   */
+  key: string | undefined;
+  guard: string | undefined;
+  actions: string[];
+  /**
+   * The paths of the targets which could be resolved. Transitions
+   * without a target point to the state node they're on
+   */
+  targetPaths: string[][];
+}
+
+const INLINE_LABEL = "inline";
+
+export const getActionLabel = (action: ActionNode) => {
+  if (action.name) return action.name;
+
+  const type = (action.action as any)?.type;
+
+  return typeof type === "string" ? type : INLINE_LABEL;
+};
+
+export const getGuardLabel = (cond: CondNode) => {
+  return cond.name || INLINE_LABEL;
+};
+
+/**
+ * Gets the transitions of the machine from getTransitions,
+ * with their targets resolved and their implementations named
+ */
+export const getDiagramTransitions = (
+  machine: MachineParseResult,
+): DiagramTransition[] => {
+  return machine.getTransitions().map((transition) => {
+    const { config, fromPath } = transition;
+    const guard = config.cond || config.guard;
+
+    const targetPaths: string[][] = [];
+
+    if (!config.target?.length) {
+      targetPaths.push(fromPath);
+    } else {
+      config.target.forEach((target) => {
+        const resolvedPath = machine.resolveTarget(fromPath, target.value);
+        if (resolvedPath) targetPaths.push(resolvedPath);
+      });
+    }
+
+    return {
+      fromPath,
+      kind: transition.kind,
+      key: transition.key,
+      guard: guard && getGuardLabel(guard),
+      actions: (config.actions || []).map(getActionLabel),
+      targetPaths,
+    };
+  });
+};
+
+/**
+ * Describes what takes the transition: the event, or the
+ * delay, eventless transition or invoke result
+ */
+export const getTransitionTrigger = (transition: DiagramTransition) => {
+  switch (transition.kind) {
+    case "on":
+      return transition.key || "always";
+    case "after":
+      return `after(${transition.key})`;
+    default:
+      return transition.kind;
+  }
+};
+
+/**
+ * Labels the transition as EVENT [guard] / action1, action2
+ */
+export const getTransitionLabel = (
+  transition: DiagramTransition,
+  options: { hideActions?: boolean } = {},
+) => {
+  let label = getTransitionTrigger(transition);
+
+  if (transition.guard) {
+    label += ` [${transition.guard}]`;
+  }
+  if (transition.actions.length && !options.hideActions) {
+    label += ` / ${transition.actions.join(", ")}`;
+  }
+
+  return label;
+};
+
+/**
+ * Whether the transition goes between children of the same
+ * state node. Diagrams nesting states draw the others once
+ * every state is declared, so their targets aren't
+ * declared again inside the state they start from
+ */
+export const isBetweenSiblings = (fromPath: string[], targetPath: string[]) =>
+  getPathKey(fromPath.slice(0, -1)) === getPathKey(targetPath.slice(0, -1));
+
+/**
+ * The key of the state node, or the id of the machine
+ * for the root state node, which has no key
+ */
+export const getStateNodeLabel = (
+  machine: MachineParseResult,
+  path: string[],
+) => {
+  return path.length
+    ? path[path.length - 1]
+    : machine.getStateNodeId(path) || "";
+};
+
+const ROOT_ID = "machine";
+
+const sanitizeId = (value: string) => value.replace(/[^\w]/g, "_") || "_";
+
+/**
+ * Diagrams share ids between all their states, so keys
+ * used more than once are prefixed with their parents.
+ * Ids still taken after that, like a-b and a_b once
+ * sanitized, get a numbered suffix
+ */
+export const getDiagramStateIds = (
+  stateNodes: MachineParseResultStateNode[],
+) => {
+  const getKeyId = (path: string[]) =>
+    path.length ? sanitizeId(path[path.length - 1]) : ROOT_ID;
+
+  const keyCounts: Record<string, number> = {};
+
+  stateNodes.forEach(({ path }) => {
+    const id = getKeyId(path);
+    keyCounts[id] = (keyCounts[id] || 0) + 1;
+  });
+
+  const ids: Record<string, string> = {};
+  const takenIds: Record<string, boolean> = {};
+
+  stateNodes.forEach(({ path }) => {
+    const keyId = getKeyId(path);
+    const baseId =
+      keyCounts[keyId] > 1 && path.length
+        ? path.map(sanitizeId).join("__")
+        : keyId;
+
+    let id = baseId;
+    for (let suffix = 2; takenIds[id]; suffix++) {
+      id = `${baseId}_${suffix}`;
+    }
+
+    takenIds[id] = true;
+    ids[getPathKey(path)] = id;
+  });
+
+  return ids;
+};
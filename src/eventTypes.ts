@@ -0,0 +1,459 @@
+import type { Scope } from "@babel/traverse";
+import * as t from "@babel/types";
+import { createParser } from "./createParser";
+import { FileIndex } from "./fileIndex";
+import { AnyNode } from "./scalars";
+import { ParserContext } from "./types";
+import { unionType } from "./unionType";
+
+/**
+ * The subset of JSON Schema used to describe
+ * the payload of events
+ */
+export interface PayloadSchema {
+  type?: "string" | "number" | "boolean" | "null" | "object" | "array";
+  enum?: (string | number | boolean)[];
+  properties?: Record<string, PayloadSchema>;
+  required?: string[];
+  items?: PayloadSchema;
+  anyOf?: PayloadSchema[];
+}
+
+export interface EventTypeDefinition {
+  type: string;
+  /**
+   * The branch of the union declaring the event
+   */
+  node: t.Node;
+  /**
+   * The annotation of the type member, like 'SUBMIT'
+   * or 'SUBMIT' | 'CANCEL'
+   */
+  typeNode: t.TSType;
+  /**
+   * Describes the members of the event other than type
+   */
+  payload: PayloadSchema;
+}
+
+interface TypeMember {
+  key: string;
+  optional: boolean;
+  typeAnnotation: t.TSType | undefined;
+}
+
+type TypeDeclaration = t.TSInterfaceDeclaration | t.TSTypeAliasDeclaration;
+
+/**
+ * Finds the last interface or type alias in the
+ * file with the name you provide
+ */
+const findTypeDeclarationWithName = (index: FileIndex, name: string) => {
+  const declarations = index.typeDeclarations[name] || [];
+
+  return declarations[declarations.length - 1];
+};
+
+const getStatementsOfScope = (scope: Scope): t.Statement[] => {
+  const block = scope.block as t.Node;
+
+  if (t.isProgram(block) || t.isBlockStatement(block)) return block.body;
+  if (t.isTSModuleBlock(block)) return block.body;
+  if (t.isFunction(block) && t.isBlockStatement(block.body)) {
+    return block.body.body;
+  }
+  return [];
+};
+
+const containsNode = (container: t.Node, node: t.Node) =>
+  container.start !== null &&
+  container.end !== null &&
+  node.start !== null &&
+  node.end !== null &&
+  container.start <= node.start &&
+  node.end <= container.end;
+
+/**
+ * Babel does not register interfaces and type aliases as
+ * bindings, so this looks through the statements of each
+ * scope around the reference, starting from the innermost
+ */
+const findTypeDeclarationInScope = (
+  scope: Scope,
+  reference: t.Identifier,
+): TypeDeclaration | undefined => {
+  let currentScope: Scope | undefined = scope;
+
+  while (
+    currentScope &&
+    !containsNode(currentScope.block as t.Node, reference)
+  ) {
+    currentScope = currentScope.parent;
+  }
+
+  for (
+    currentScope = currentScope || scope;
+    currentScope;
+    currentScope = currentScope.parent
+  ) {
+    let declaration: TypeDeclaration | undefined;
+
+    getStatementsOfScope(currentScope).forEach((statement) => {
+      const node = t.isExportNamedDeclaration(statement)
+        ? statement.declaration
+        : statement;
+
+      if (
+        (t.isTSInterfaceDeclaration(node) ||
+          t.isTSTypeAliasDeclaration(node)) &&
+        node.id.name === reference.name
+      ) {
+        declaration = node;
+      }
+    });
+
+    if (declaration) return declaration;
+  }
+};
+
+const getMemberKey = (key: t.Expression): string | undefined => {
+  if (t.isIdentifier(key)) return key.name;
+  if (t.isStringLiteral(key) || t.isNumericLiteral(key)) {
+    return `${key.value}`;
+  }
+};
+
+class TypeWalker {
+  /**
+   * The declarations of the types being resolved, to
+   * stop at recursive types
+   */
+  private resolving: TypeDeclaration[] = [];
+  /**
+   * The declarations of the types whose schema is being
+   * built, which recursive types reference from inside it
+   */
+  private buildingSchemas: TypeDeclaration[] = [];
+
+  constructor(private context: ParserContext) {}
+
+  /**
+   * Finds the declaration a type name refers to through the
+   * scopes around it, or by searching the whole file when
+   * there is no scope
+   */
+  private findDeclaration = (
+    reference: t.Identifier,
+  ): TypeDeclaration | undefined => {
+    if (this.context.scope) {
+      return findTypeDeclarationInScope(this.context.scope, reference);
+    }
+    return findTypeDeclarationWithName(this.context.index, reference.name);
+  };
+
+  private withDeclaration = <T>(
+    reference: t.Identifier,
+    fallback: T,
+    callback: (declaration: TypeDeclaration) => T,
+  ): T => {
+    const declaration = this.findDeclaration(reference);
+
+    if (!declaration || this.resolving.includes(declaration)) return fallback;
+
+    this.resolving.push(declaration);
+    const result = callback(declaration);
+    this.resolving.pop();
+
+    return result;
+  };
+
+  /**
+   * Flattens unions, following references to local
+   * type aliases
+   */
+  getUnionBranches = (node: t.TSType): t.TSType[] => {
+    if (t.isTSParenthesizedType(node)) {
+      return this.getUnionBranches(node.typeAnnotation);
+    }
+    if (t.isTSUnionType(node)) {
+      return node.types.reduce<t.TSType[]>(
+        (branches, type) => branches.concat(this.getUnionBranches(type)),
+        [],
+      );
+    }
+    if (t.isTSTypeReference(node) && t.isIdentifier(node.typeName)) {
+      return this.withDeclaration(node.typeName, [node], (declaration) =>
+        t.isTSTypeAliasDeclaration(declaration)
+          ? this.getUnionBranches(declaration.typeAnnotation)
+          : [node],
+      );
+    }
+    return [node];
+  };
+
+  /**
+   * Gets the members of type literals, interfaces and
+   * intersections, or undefined for any other type
+   */
+  getMembers = (node: t.TSType): TypeMember[] | undefined => {
+    if (t.isTSParenthesizedType(node)) {
+      return this.getMembers(node.typeAnnotation);
+    }
+    if (t.isTSTypeLiteral(node)) {
+      return this.getMembersOfSignatures(node.members);
+    }
+    if (t.isTSIntersectionType(node)) {
+      const members: TypeMember[] = [];
+      for (const type of node.types) {
+        const typeMembers = this.getMembers(type);
+        if (!typeMembers) return undefined;
+        members.push(...typeMembers);
+      }
+      return members;
+    }
+    if (t.isTSTypeReference(node) && t.isIdentifier(node.typeName)) {
+      return this.getMembersOfReference(node.typeName);
+    }
+  };
+
+  private getMembersOfReference = (
+    reference: t.Identifier,
+  ): TypeMember[] | undefined => {
+    return this.withDeclaration(reference, undefined, (declaration) => {
+      if (t.isTSTypeAliasDeclaration(declaration)) {
+        return this.getMembers(declaration.typeAnnotation);
+      }
+
+      const inherited: TypeMember[] = [];
+      declaration.extends?.forEach((heritage) => {
+        if (t.isIdentifier(heritage.expression)) {
+          inherited.push(
+            ...(this.getMembersOfReference(heritage.expression) || []),
+          );
+        }
+      });
+
+      return [
+        ...inherited,
+        ...this.getMembersOfSignatures(declaration.body.body),
+      ];
+    });
+  };
+
+  private getMembersOfSignatures = (
+    signatures: t.TSTypeElement[],
+  ): TypeMember[] => {
+    const members: TypeMember[] = [];
+
+    signatures.forEach((signature) => {
+      if (!t.isTSPropertySignature(signature)) return;
+      const key = getMemberKey(signature.key);
+      if (key === undefined) return;
+
+      members.push({
+        key,
+        optional: Boolean(signature.optional),
+        typeAnnotation: signature.typeAnnotation?.typeAnnotation,
+      });
+    });
+
+    return members;
+  };
+
+  /**
+   * Gets the string literals a type can be, such
+   * as 'A' | 'B'
+   */
+  getStringLiterals = (node: t.TSType): string[] => {
+    const literals: string[] = [];
+
+    this.getUnionBranches(node).forEach((branch) => {
+      if (t.isTSLiteralType(branch) && t.isStringLiteral(branch.literal)) {
+        literals.push(branch.literal.value);
+      }
+    });
+
+    return literals;
+  };
+
+  getSchema = (node: t.TSType | undefined): PayloadSchema => {
+    if (!node) return {};
+    if (t.isTSParenthesizedType(node)) {
+      return this.getSchema(node.typeAnnotation);
+    }
+    if (t.isTSStringKeyword(node)) return { type: "string" };
+    if (t.isTSNumberKeyword(node)) return { type: "number" };
+    if (t.isTSBooleanKeyword(node)) return { type: "boolean" };
+    if (t.isTSNullKeyword(node)) return { type: "null" };
+    if (t.isTSLiteralType(node)) {
+      const literal = node.literal;
+      if (t.isStringLiteral(literal)) {
+        return { type: "string", enum: [literal.value] };
+      }
+      if (t.isNumericLiteral(literal)) {
+        return { type: "number", enum: [literal.value] };
+      }
+      if (t.isBooleanLiteral(literal)) {
+        return { type: "boolean", enum: [literal.value] };
+      }
+      return {};
+    }
+    if (t.isTSArrayType(node)) {
+      return { type: "array", items: this.getSchema(node.elementType) };
+    }
+    if (
+      t.isTSTypeReference(node) &&
+      t.isIdentifier(node.typeName) &&
+      node.typeName.name === "Array"
+    ) {
+      return {
+        type: "array",
+        items: this.getSchema(node.typeParameters?.params[0]),
+      };
+    }
+    if (t.isTSTypeReference(node) && t.isIdentifier(node.typeName)) {
+      const declaration = this.findDeclaration(node.typeName);
+
+      if (!declaration) return this.getUnionOrReferenceSchema(node);
+      if (this.buildingSchemas.includes(declaration)) return {};
+
+      this.buildingSchemas.push(declaration);
+      const schema = this.getUnionOrReferenceSchema(node);
+      this.buildingSchemas.pop();
+
+      return schema;
+    }
+    if (t.isTSUnionType(node) || t.isTSTypeReference(node)) {
+      return this.getUnionOrReferenceSchema(node);
+    }
+
+    const members = this.getMembers(node);
+    return members ? this.getObjectSchema(members) : {};
+  };
+
+  private getUnionOrReferenceSchema = (
+    node: t.TSUnionType | t.TSTypeReference,
+  ): PayloadSchema => {
+    const branches = this.getUnionBranches(node);
+
+    if (branches.length === 1) {
+      const [branch] = branches;
+
+      if (branch !== node && !t.isTSTypeReference(branch)) {
+        return this.getSchema(branch);
+      }
+
+      const members = this.getMembers(branch);
+      return members ? this.getObjectSchema(members) : {};
+    }
+
+    return this.getUnionSchema(branches.map(this.getSchema));
+  };
+
+  /**
+   * Collapses unions of literals of the same type
+   * into a single enum
+   */
+  private getUnionSchema = (schemas: PayloadSchema[]): PayloadSchema => {
+    const type = schemas[0]?.type;
+    const isEnum = schemas.every(
+      (schema) =>
+        schema.enum && schema.type === type && Object.keys(schema).length === 2,
+    );
+
+    if (isEnum) {
+      return {
+        type,
+        enum: schemas.reduce<(string | number | boolean)[]>(
+          (values, schema) => values.concat(schema.enum!),
+          [],
+        ),
+      };
+    }
+
+    return { anyOf: schemas };
+  };
+
+  getObjectSchema = (members: TypeMember[]): PayloadSchema => {
+    const schema: PayloadSchema = { type: "object", properties: {} };
+    const required: string[] = [];
+
+    members.forEach((member) => {
+      schema.properties![member.key] = this.getSchema(member.typeAnnotation);
+      if (!member.optional) required.push(member.key);
+    });
+
+    if (required.length) {
+      schema.required = required;
+    }
+
+    return schema;
+  };
+}
+
+/**
+ * Walks a union of event types, like A | B, and describes
+ * each event it declares. Interfaces and type aliases
+ * declared in the same file are followed, resolving their
+ * names from the scope of the context
+ */
+export const getEventTypeDefinitions = (
+  node: t.TSType,
+  context: ParserContext,
+): EventTypeDefinition[] => {
+  const walker = new TypeWalker(context);
+  const definitions: EventTypeDefinition[] = [];
+
+  walker.getUnionBranches(node).forEach((branch) => {
+    const members = walker.getMembers(branch);
+    const typeMember = members?.find((member) => member.key === "type");
+
+    if (!members || !typeMember?.typeAnnotation) return;
+
+    const payload = walker.getObjectSchema(
+      members.filter((member) => member !== typeMember),
+    );
+
+    const typeNode = typeMember.typeAnnotation;
+
+    walker.getStringLiterals(typeNode).forEach((type) => {
+      definitions.push({ type, node: branch, typeNode, payload });
+    });
+  });
+
+  return definitions;
+};
+
+/**
+ * Parses schema: { events: {} as A | B }
+ */
+export const SchemaEvents = unionType<{
+  node: t.Node;
+  eventTypes?: EventTypeDefinition[];
+}>([
+  createParser({
+    babelMatcher: t.isTSAsExpression,
+    parseNode: (node, context) => ({
+      node,
+      eventTypes: getEventTypeDefinitions(node.typeAnnotation, context),
+    }),
+  }),
+  AnyNode,
+]);
+
+/**
+ * Parses the events passed as the second type
+ * argument, as in createMachine<Context, Events>()
+ */
+export const TypeArgumentEvents = createParser({
+  babelMatcher: t.isTSTypeParameterInstantiation,
+  parseNode: (node, context) => {
+    const eventsType = node.params[1];
+    if (!eventsType) return undefined;
+
+    return {
+      node: eventsType,
+      eventTypes: getEventTypeDefinitions(eventsType, context),
+    };
+  },
+});
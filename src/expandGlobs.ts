@@ -0,0 +1,125 @@
+import fs from "fs";
+import path from "path";
+
+const GLOB_CHARACTERS = /[*?{}[\]]/;
+
+const IGNORED_DIRECTORIES = ["node_modules", ".git"];
+
+const escapeRegex = (str: string) => str.replace(/[.+^$()|\\]/g, "\\$&");
+
+/**
+ * Turns a glob such as 'examples/*.machine.{ts,tsx}' into a regex
+ * which matches relative paths, using '/' as the separator
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  let regex = "";
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const isWholeSegment =
+          (i === 0 || glob[i - 1] === "/") &&
+          (i + 2 === glob.length || glob[i + 2] === "/");
+        if (isWholeSegment && glob[i + 2] === "/") {
+          regex += "(?:.*/)?";
+          i += 2;
+        } else {
+          regex += ".*";
+          i += 1;
+        }
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      regex += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      regex += ")";
+    } else if (char === "," && inGroup) {
+      regex += "|";
+    } else if (char === "[") {
+      const closingIndex = glob.indexOf("]", i);
+      if (closingIndex === -1) {
+        regex += "\\[";
+      } else {
+        regex += glob.slice(i, closingIndex + 1).replace(/^\[!/, "[^");
+        i = closingIndex;
+      }
+    } else {
+      regex += escapeRegex(char);
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+};
+
+const walkFiles = (dir: string, files: string[] = []): string[] => {
+  fs.readdirSync(dir).forEach((entry) => {
+    if (IGNORED_DIRECTORIES.includes(entry)) return;
+    const fullPath = path.join(dir, entry);
+    if (fs.statSync(fullPath).isDirectory()) {
+      walkFiles(fullPath, files);
+    } else {
+      files.push(fullPath);
+    }
+  });
+
+  return files;
+};
+
+/**
+ * Expands a list of file paths and globs into a de-duplicated
+ * list of files, relative to the cwd you provide. Paths without
+ * glob characters are passed through untouched, so missing
+ * files can be reported by the caller
+ */
+export const expandGlobs = (patterns: string[], cwd: string): string[] => {
+  const files: string[] = [];
+
+  const addFile = (file: string) => {
+    if (!files.includes(file)) {
+      files.push(file);
+    }
+  };
+
+  patterns.forEach((pattern) => {
+    const normalisedPattern = pattern.split(path.sep).join("/");
+
+    if (!GLOB_CHARACTERS.test(normalisedPattern)) {
+      addFile(pattern);
+      return;
+    }
+
+    const segments = normalisedPattern.split("/");
+    const firstGlobSegment = segments.findIndex((segment) =>
+      GLOB_CHARACTERS.test(segment),
+    );
+    const baseDir = segments.slice(0, firstGlobSegment).join("/");
+    const absoluteBaseDir = path.resolve(cwd, baseDir || ".");
+
+    if (!fs.existsSync(absoluteBaseDir)) return;
+
+    const regex = globToRegExp(segments.slice(firstGlobSegment).join("/"));
+
+    walkFiles(absoluteBaseDir)
+      .sort()
+      .forEach((file) => {
+        const relativeToBase = path
+          .relative(absoluteBaseDir, file)
+          .split(path.sep)
+          .join("/");
+
+        if (regex.test(relativeToBase)) {
+          addFile(path.relative(cwd, file));
+        }
+      });
+  });
+
+  return files;
+};
@@ -0,0 +1,94 @@
+import traverse from "@babel/traverse";
+import * as t from "@babel/types";
+import { RecordOfArrays } from "./RecordOfArrays";
+
+export interface ImportedName {
+  node: t.ImportDeclaration;
+  source: string;
+  /**
+   * 'default' for default imports, '*' for
+   * namespace imports
+   */
+  importedName: string;
+}
+
+/**
+ * The declarations in a file, keyed by name. Built once per
+ * file so that resolving a name never needs to traverse
+ * the whole file again
+ */
+export interface FileIndex {
+  declarators: Record<string, t.VariableDeclarator[]>;
+  enums: Record<string, t.TSEnumDeclaration[]>;
+  typeDeclarations: Record<
+    string,
+    (t.TSInterfaceDeclaration | t.TSTypeAliasDeclaration)[]
+  >;
+  imports: Record<string, ImportedName>;
+}
+
+export const getNameOfModuleExport = (node: t.Identifier | t.StringLiteral) => {
+  return t.isIdentifier(node) ? node.name : node.value;
+};
+
+/**
+ * Indexes the declarators, enums, types and imports of a
+ * file in a single traversal
+ */
+export const indexFile = (file: t.File): FileIndex => {
+  const declarators = new RecordOfArrays<t.VariableDeclarator>();
+  const enums = new RecordOfArrays<t.TSEnumDeclaration>();
+  const typeDeclarations = new RecordOfArrays<
+    t.TSInterfaceDeclaration | t.TSTypeAliasDeclaration
+  >();
+  const imports: Record<string, ImportedName> = {};
+
+  traverse(file as any, {
+    VariableDeclarator(path) {
+      const node = path.node as t.VariableDeclarator;
+      if (t.isIdentifier(node.id)) {
+        declarators.add(node.id.name, node);
+      }
+    },
+    TSEnumDeclaration(path) {
+      const node = path.node as t.TSEnumDeclaration;
+      enums.add(node.id.name, node);
+    },
+    TSInterfaceDeclaration(path) {
+      const node = path.node as t.TSInterfaceDeclaration;
+      typeDeclarations.add(node.id.name, node);
+    },
+    TSTypeAliasDeclaration(path) {
+      const node = path.node as t.TSTypeAliasDeclaration;
+      typeDeclarations.add(node.id.name, node);
+    },
+    ImportDeclaration(path) {
+      const node = path.node as t.ImportDeclaration;
+
+      node.specifiers.forEach((specifier) => {
+        let importedName = "default";
+
+        if (t.isImportNamespaceSpecifier(specifier)) {
+          importedName = "*";
+        } else if (t.isImportSpecifier(specifier)) {
+          importedName = getNameOfModuleExport(specifier.imported);
+        }
+
+        imports[specifier.local.name] = {
+          node,
+          source: node.source.value,
+          importedName,
+        };
+      });
+
+      path.skip();
+    },
+  });
+
+  return {
+    declarators: declarators.toObject(),
+    enums: enums.toObject(),
+    typeDeclarations: typeDeclarations.toObject(),
+    imports,
+  };
+};
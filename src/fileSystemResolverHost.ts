@@ -0,0 +1,204 @@
+import fs from "fs";
+import path from "path";
+import { ResolverHost } from "./types";
+
+export interface ResolverCompilerOptions {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+}
+
+const DEFAULT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx"];
+
+/**
+ * Removes comments and trailing commas from JSON, which
+ * are allowed in tsconfig files. Strings are left alone,
+ * so patterns such as "@/*" survive
+ */
+const stripJsonComments = (json: string): string => {
+  let result = "";
+  let inString = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+
+    if (inString) {
+      result += char;
+      if (char === "\\") {
+        result += json[++i];
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === "/" && json[i + 1] === "/") {
+      while (i < json.length && json[i] !== "\n") i++;
+      result += "\n";
+    } else if (char === "/" && json[i + 1] === "*") {
+      i = json.indexOf("*/", i + 2);
+      if (i === -1) break;
+      i++;
+    } else {
+      result += char;
+    }
+  }
+
+  return result.replace(/,(\s*[}\]])/g, "$1");
+};
+
+/**
+ * Reads the baseUrl and paths from a tsconfig, following
+ * relative `extends`. The returned baseUrl is absolute
+ */
+export const readTsConfigCompilerOptions = (
+  tsconfigPath: string,
+): ResolverCompilerOptions => {
+  const absolutePath = path.resolve(tsconfigPath);
+  const dir = path.dirname(absolutePath);
+  const json = JSON.parse(
+    stripJsonComments(fs.readFileSync(absolutePath).toString()),
+  );
+
+  let options: ResolverCompilerOptions = {};
+
+  if (typeof json.extends === "string" && json.extends.startsWith(".")) {
+    const extendsPath = path.resolve(dir, json.extends);
+    options = readTsConfigCompilerOptions(
+      extendsPath.endsWith(".json") ? extendsPath : `${extendsPath}.json`,
+    );
+  }
+
+  const compilerOptions = json.compilerOptions || {};
+
+  if (compilerOptions.paths) {
+    options.paths = compilerOptions.paths;
+    options.baseUrl = options.baseUrl || dir;
+  }
+
+  if (compilerOptions.baseUrl) {
+    options.baseUrl = path.resolve(dir, compilerOptions.baseUrl);
+  }
+
+  return options;
+};
+
+const isFile = (filePath: string) => {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch (e) {
+    return false;
+  }
+};
+
+const resolveFile = (
+  candidate: string,
+  extensions: string[],
+): string | undefined => {
+  if (isFile(candidate)) return candidate;
+
+  for (const extension of extensions) {
+    if (isFile(`${candidate}${extension}`)) return `${candidate}${extension}`;
+  }
+
+  for (const extension of extensions) {
+    const indexFile = path.join(candidate, `index${extension}`);
+    if (isFile(indexFile)) return indexFile;
+  }
+};
+
+/**
+ * Gets the candidates for a specifier from tsconfig paths,
+ * for instance '@/machines' with { '@/*': ['src/*'] }
+ * gives ['<baseUrl>/src/machines']
+ */
+const getPathsCandidates = (
+  specifier: string,
+  compilerOptions: ResolverCompilerOptions,
+): string[] => {
+  const { paths, baseUrl = process.cwd() } = compilerOptions;
+  if (!paths) return [];
+
+  const candidates: string[] = [];
+
+  Object.keys(paths).forEach((pattern) => {
+    const [prefix, suffix] = pattern.split("*");
+    const hasWildcard = pattern.includes("*");
+
+    let matchedWildcard: string | undefined;
+
+    if (!hasWildcard && pattern === specifier) {
+      matchedWildcard = "";
+    } else if (
+      hasWildcard &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix) &&
+      specifier.length >= prefix.length + suffix.length
+    ) {
+      matchedWildcard = specifier.slice(
+        prefix.length,
+        specifier.length - suffix.length,
+      );
+    }
+
+    if (matchedWildcard === undefined) return;
+
+    paths[pattern].forEach((target) => {
+      candidates.push(
+        path.resolve(baseUrl, target.replace("*", matchedWildcard!)),
+      );
+    });
+  });
+
+  return candidates;
+};
+
+/**
+ * Creates a host which reads files from disk and resolves
+ * relative imports, plus tsconfig `paths` and `baseUrl`.
+ * Imports from node_modules are not followed.
+ */
+export const createFileSystemResolverHost = (
+  options: {
+    tsconfigPath?: string;
+    compilerOptions?: ResolverCompilerOptions;
+    extensions?: string[];
+  } = {},
+): ResolverHost => {
+  const extensions = options.extensions || DEFAULT_EXTENSIONS;
+  const compilerOptions =
+    options.compilerOptions ||
+    (options.tsconfigPath
+      ? readTsConfigCompilerOptions(options.tsconfigPath)
+      : {});
+
+  return {
+    readFile: (filePath) => {
+      try {
+        return fs.readFileSync(filePath).toString();
+      } catch (e) {
+        return undefined;
+      }
+    },
+    resolveModule: (specifier, fromFilePath) => {
+      const fromDir = fromFilePath
+        ? path.dirname(path.resolve(fromFilePath))
+        : process.cwd();
+
+      if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+        return resolveFile(path.resolve(fromDir, specifier), extensions);
+      }
+
+      for (const candidate of getPathsCandidates(specifier, compilerOptions)) {
+        const resolved = resolveFile(candidate, extensions);
+        if (resolved) return resolved;
+      }
+
+      if (compilerOptions.baseUrl) {
+        return resolveFile(
+          path.resolve(compilerOptions.baseUrl, specifier),
+          extensions,
+        );
+      }
+    },
+  };
+};
@@ -0,0 +1,310 @@
+import { MachineConfig } from "xstate";
+import { XSTATE_SCXML_NAMESPACE } from "./toSCXML";
+import { parseXml, XmlElement } from "./xml";
+
+const STATE_ELEMENTS = ["state", "parallel", "final", "history"];
+
+const DEFAULT_MACHINE_KEY = "(machine)";
+
+const AFTER_EVENT_REGEX = /^xstate\.after\((.+)\)#/;
+
+const getLocalName = (element: XmlElement) => {
+  return element.name.slice(element.name.indexOf(":") + 1);
+};
+
+const collapse = <T>(items: T[]): T | T[] => {
+  return items.length === 1 ? items[0] : items;
+};
+
+/**
+ * Turns SCXML delays like 500ms or 2s into milliseconds
+ */
+const parseDelay = (delay: string): number | string => {
+  const match = delay.trim().match(/^(\d+(?:\.\d+)?)(ms|s)?$/);
+  if (!match) return delay;
+
+  return Number(match[1]) * (match[2] === "s" ? 1000 : 1);
+};
+
+interface StateInfo {
+  element: XmlElement;
+  path: string[];
+}
+
+/**
+ * Turns an SCXML document into a machine config, for instance
+ * one printed by toSCXML. Named actions in the xstate namespace
+ * become references, and <raise>, <send>, <log>, <assign> and
+ * <cancel> become the matching XState actions. Scripts and
+ * the data model are left out
+ */
+export const fromSCXML = (scxml: string): MachineConfig<any, any, any> => {
+  const document = parseXml(scxml);
+
+  if (getLocalName(document) !== "scxml") {
+    throw new Error(
+      `Expected the root element of an SCXML document to be <scxml>, got <${document.name}>`,
+    );
+  }
+
+  const xstatePrefix = Object.keys(document.attributes)
+    .find(
+      (key) =>
+        key.startsWith("xmlns:") &&
+        document.attributes[key] === XSTATE_SCXML_NAMESPACE,
+    )
+    ?.slice("xmlns:".length);
+
+  const machineId: string | undefined = document.attributes.name;
+  const statesById: Record<string, StateInfo> = {};
+  const keysByElement = new Map<XmlElement, string>();
+
+  const getStateChildren = (element: XmlElement) => {
+    return element.children.filter((child) =>
+      STATE_ELEMENTS.includes(getLocalName(child)),
+    );
+  };
+
+  /**
+   * Gives each state a key, dropping the id of its parent
+   * from its id when toSCXML added it
+   */
+  const collectStates = (element: XmlElement, path: string[]) => {
+    const parentId = path.join(".");
+
+    getStateChildren(element).forEach((child, index) => {
+      const id: string = child.attributes.id ?? `${parentId}:${index}`;
+      const key =
+        parentId && id.startsWith(`${parentId}.`)
+          ? id.slice(parentId.length + 1)
+          : id;
+      const childPath = [...path, key];
+
+      keysByElement.set(child, key);
+      statesById[id] = { element: child, path: childPath };
+      collectStates(child, childPath);
+    });
+  };
+
+  collectStates(document, []);
+
+  const getTarget = (fromPath: string[], targetId: string) => {
+    const targetPath = statesById[targetId]?.path;
+    if (!targetPath) return targetId;
+
+    const isSibling =
+      targetPath.length === fromPath.length &&
+      targetPath.slice(0, -1).join("\0") === fromPath.slice(0, -1).join("\0");
+
+    return isSibling
+      ? targetPath[targetPath.length - 1]
+      : `#${[machineId || DEFAULT_MACHINE_KEY, ...targetPath].join(".")}`;
+  };
+
+  const toAction = (element: XmlElement): unknown => {
+    const { attributes } = element;
+
+    if (xstatePrefix && element.name === `${xstatePrefix}:action`) {
+      return attributes.type?.startsWith("xstate.")
+        ? { type: attributes.type }
+        : attributes.type;
+    }
+
+    switch (getLocalName(element)) {
+      case "raise":
+        return { type: "xstate.raise", event: attributes.event };
+      case "send":
+        if (AFTER_EVENT_REGEX.test(attributes.event || "")) return undefined;
+
+        return {
+          type: "xstate.send",
+          event: { type: attributes.event },
+          ...(attributes.target && { to: attributes.target }),
+          ...(attributes.delay && { delay: parseDelay(attributes.delay) }),
+          ...(attributes.id && { id: attributes.id }),
+        };
+      case "log":
+        return { type: "xstate.log" };
+      case "assign":
+        return { type: "xstate.assign" };
+      case "cancel":
+        if (AFTER_EVENT_REGEX.test(attributes.sendid || "")) return undefined;
+
+        return { type: "xstate.cancel", sendId: attributes.sendid };
+    }
+  };
+
+  const toActions = (elements: XmlElement[]) => {
+    return elements
+      .map(toAction)
+      .filter((action) => action !== undefined && action !== "");
+  };
+
+  const getExecutableContent = (element: XmlElement, name: string) => {
+    return toActions(
+      element.children
+        .filter((child) => getLocalName(child) === name)
+        .reduce<XmlElement[]>((all, child) => all.concat(child.children), []),
+    );
+  };
+
+  const toTransition = (fromPath: string[], element: XmlElement) => {
+    const targets = (element.attributes.target || "")
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((targetId) => getTarget(fromPath, targetId));
+    const actions = toActions(element.children);
+    const cond = element.attributes.cond;
+
+    if (!cond && !actions.length && targets.length === 1) {
+      return targets[0];
+    }
+
+    return {
+      ...(targets.length && { target: collapse(targets) }),
+      ...(cond && { cond }),
+      ...(actions.length && { actions: collapse(actions) }),
+    };
+  };
+
+  const getInitial = (element: XmlElement, path: string[]) => {
+    const initialId =
+      element.attributes.initial ??
+      element.children
+        .find((child) => getLocalName(child) === "initial")
+        ?.children.find((child) => getLocalName(child) === "transition")
+        ?.attributes.target;
+
+    if (initialId !== undefined) {
+      return statesById[initialId.split(/\s+/)[0]]?.path[path.length];
+    }
+
+    const firstChild = getStateChildren(element)[0];
+    return firstChild && keysByElement.get(firstChild);
+  };
+
+  const toStateNodeConfig = (element: XmlElement, path: string[]) => {
+    const config: Record<string, any> = {};
+    const type = getLocalName(element);
+    const children = getStateChildren(element);
+
+    if (type === "history") {
+      const targetId = element.children.find(
+        (child) => getLocalName(child) === "transition",
+      )?.attributes.target;
+
+      config.type = "history";
+      if (element.attributes.type === "deep") config.history = "deep";
+      if (targetId) config.target = getTarget(path, targetId.split(/\s+/)[0]);
+      return config;
+    }
+    if (type === "parallel" || type === "final") {
+      config.type = type;
+    }
+    if (type === "state" && children.length) {
+      config.initial = getInitial(element, path);
+    }
+
+    const entry = getExecutableContent(element, "onentry");
+    const exit = getExecutableContent(element, "onexit");
+    if (entry.length) config.entry = collapse(entry);
+    if (exit.length) config.exit = collapse(exit);
+
+    const invokes = element.children
+      .filter((child) => getLocalName(child) === "invoke")
+      .map((child) => ({
+        ...(child.attributes.src && { src: child.attributes.src }),
+        ...(child.attributes.id && { id: child.attributes.id }),
+      }));
+
+    const stateIds = [
+      element.attributes.id,
+      [machineId || DEFAULT_MACHINE_KEY, ...path].join("."),
+    ];
+
+    const addTransition = (
+      record: Record<string, any>,
+      key: string,
+      transition: unknown,
+    ) => {
+      const existing = record[key];
+      record[key] =
+        existing === undefined
+          ? transition
+          : ([] as unknown[]).concat(existing, transition);
+    };
+
+    const on: Record<string, any> = {};
+    const after: Record<string, any> = {};
+    const always: unknown[] = [];
+    const onDone: unknown[] = [];
+
+    element.children
+      .filter((child) => getLocalName(child) === "transition")
+      .forEach((child) => {
+        const transition = toTransition(path, child);
+        const events = (child.attributes.event || "")
+          .split(/\s+/)
+          .filter(Boolean);
+
+        if (!events.length) {
+          always.push(transition);
+        }
+
+        events.forEach((event) => {
+          const delay = event.match(AFTER_EVENT_REGEX)?.[1];
+          const invoke = invokes.find(
+            (invoke) =>
+              event === `done.invoke.${invoke.id}` ||
+              event === `error.platform.${invoke.id}`,
+          ) as Record<string, any> | undefined;
+
+          if (delay !== undefined) {
+            addTransition(after, delay, transition);
+          } else if (
+            stateIds.some((stateId) => event === `done.state.${stateId}`)
+          ) {
+            onDone.push(transition);
+          } else if (invoke) {
+            addTransition(
+              invoke,
+              event.startsWith("done.") ? "onDone" : "onError",
+              transition,
+            );
+          } else {
+            addTransition(on, event, transition);
+          }
+        });
+      });
+
+    if (invokes.length) config.invoke = collapse(invokes);
+    if (always.length) config.always = collapse(always);
+    if (Object.keys(after).length) config.after = after;
+    if (Object.keys(on).length) config.on = on;
+    if (onDone.length) config.onDone = collapse(onDone);
+
+    if (children.length) {
+      config.states = {};
+      children.forEach((child) => {
+        const key = keysByElement.get(child)!;
+        config.states[key] = toStateNodeConfig(child, [...path, key]);
+      });
+    }
+
+    return config;
+  };
+
+  const children = getStateChildren(document);
+  const states: Record<string, any> = {};
+
+  children.forEach((child) => {
+    const key = keysByElement.get(child)!;
+    states[key] = toStateNodeConfig(child, [key]);
+  });
+
+  return {
+    ...(machineId && { id: machineId }),
+    ...(children.length && { initial: getInitial(document, []) }),
+    ...(children.length && { states }),
+  };
+};
@@ -1,7 +1,13 @@
-import traverse from "@babel/traverse";
 import * as t from "@babel/types";
 import { createParser } from "./createParser";
-import { AnyParser } from "./types";
+import { FileIndex } from "./fileIndex";
+import { describeNode, reportDiagnostic } from "./diagnostics";
+import {
+  resolveImportedName,
+  resolveMemberExpressionRoot,
+  ResolvedDeclaration,
+} from "./imports";
+import { AnyParser, ParserContext } from "./types";
 import { unionType } from "./unionType";
 import {
   getPropertiesOfObjectExpression,
@@ -10,24 +16,16 @@ import {
 import { wrapParserResult } from "./wrapParserResult";
 
 /**
- * Finds a declarator in the same file which corresponds
+ * Finds the last declarator in the file which corresponds
  * to an identifier of the name you provide
  */
 export const findVariableDeclaratorWithName = (
-  file: any,
+  index: FileIndex,
   name: string,
-): t.VariableDeclarator | null | undefined => {
-  let declarator: t.VariableDeclarator | null | undefined = null;
-
-  traverse(file, {
-    VariableDeclarator(path) {
-      if (t.isIdentifier(path.node.id) && path.node.id.name === name) {
-        declarator = path.node as any;
-      }
-    },
-  });
+): t.VariableDeclarator | undefined => {
+  const declarators = index.declarators[name] || [];
 
-  return declarator;
+  return declarators[declarators.length - 1];
 };
 
 /**
@@ -40,35 +38,149 @@ export const identifierReferencingVariableDeclaration = <Result>(
   return createParser({
     babelMatcher: t.isIdentifier,
     parseNode: (node, context) => {
-      const variableDeclarator = findVariableDeclaratorWithName(
-        context.file,
-        node.name,
-      );
+      const resolved = resolveLocalName(node, context);
+
+      if (!resolved) return undefined;
 
-      return parser.parse(variableDeclarator?.init, context);
+      return parser.parse(resolved.node, resolved.context);
     },
   });
 };
 
 /**
- * Finds a declarator in the same file which corresponds
- * to an identifier of the name you provide
+ * Finds the last enum in the file with the name you provide
  */
 export const findTSEnumDeclarationWithName = (
-  file: any,
+  index: FileIndex,
   name: string,
-): t.TSEnumDeclaration | null | undefined => {
-  let declarator: t.TSEnumDeclaration | null | undefined = null;
+): t.TSEnumDeclaration | undefined => {
+  const enums = index.enums[name] || [];
 
-  traverse(file, {
-    TSEnumDeclaration(path) {
-      if (t.isIdentifier(path.node.id) && path.node.id.name === name) {
-        declarator = path.node as any;
-      }
-    },
+  return enums[enums.length - 1];
+};
+
+const reportAmbiguousBinding = (
+  context: ParserContext,
+  identifier: t.Identifier,
+  reason: string,
+) => {
+  reportDiagnostic(context, {
+    code: "ambiguous-binding",
+    message: `Could not cleanly resolve ${describeNode(identifier)}: ${reason}`,
+    node: identifier,
   });
+};
+
+/**
+ * Finds what an identifier refers to using the bindings of the
+ * scope it was used in, so that shadowed names resolve to
+ * the correct declaration
+ */
+const resolveBinding = (
+  identifier: t.Identifier,
+  context: ParserContext,
+  seen: string[],
+): ResolvedDeclaration | undefined => {
+  const binding = context.scope!.getBinding(identifier.name);
+
+  if (!binding) {
+    /**
+     * Babel does not register enums as bindings,
+     * so look for them in the index instead
+     */
+    const enumDeclaration = findTSEnumDeclarationWithName(
+      context.index,
+      identifier.name,
+    );
+
+    if (!enumDeclaration) return undefined;
+
+    return { node: enumDeclaration, context };
+  }
+
+  const bindingContext: ParserContext = { ...context, scope: binding.scope };
+  const declaration = binding.path.node as t.Node;
+
+  if (binding.kind === "module") {
+    return resolveImportedName(identifier.name, context, seen);
+  }
+
+  /**
+   * The binding kinds in the Babel types are incomplete
+   */
+  if ((binding.kind as string) === "param") {
+    reportAmbiguousBinding(
+      context,
+      identifier,
+      "it is a function parameter, so its value is not known",
+    );
+    return undefined;
+  }
+
+  if (t.isVariableDeclarator(declaration)) {
+    if (!t.isIdentifier(declaration.id)) {
+      reportAmbiguousBinding(
+        context,
+        identifier,
+        "it is declared via destructuring",
+      );
+      return undefined;
+    }
+
+    if (binding.constantViolations.length > 0) {
+      reportAmbiguousBinding(
+        context,
+        identifier,
+        "it is reassigned, so its initial value was used",
+      );
+    }
+
+    return { node: declaration.init, context: bindingContext };
+  }
+
+  return { node: declaration, context: bindingContext };
+};
+
+/**
+ * Finds what an identifier refers to, whether it's declared
+ * in the file itself or imported from another
+ */
+export const resolveLocalName = (
+  identifier: t.Identifier,
+  context: ParserContext,
+  seen: string[] = [],
+): ResolvedDeclaration | undefined => {
+  if (context.scope) {
+    return resolveBinding(identifier, context, seen);
+  }
+
+  const variableDeclarator = findVariableDeclaratorWithName(
+    context.index,
+    identifier.name,
+  );
+
+  if (context.index.declarators[identifier.name]?.length > 1) {
+    reportAmbiguousBinding(
+      context,
+      identifier,
+      "it is declared more than once in the file, so the last declaration was used",
+    );
+  }
+
+  if (variableDeclarator) {
+    return { node: variableDeclarator.init, context };
+  }
+
+  const enumDeclaration = findTSEnumDeclarationWithName(
+    context.index,
+    identifier.name,
+  );
+
+  if (enumDeclaration) {
+    return { node: enumDeclaration, context };
+  }
 
-  return declarator;
+  return resolveImportedName(identifier.name, context, seen);
 };
 
 interface DeepMemberExpression {
@@ -76,6 +188,18 @@ interface DeepMemberExpression {
   node: t.MemberExpression | t.Identifier;
 }
 
+const getRootIdentifierOfDeepMemberExpression = (
+  memberExpression: DeepMemberExpression,
+): t.Identifier | undefined => {
+  let currentLevel = memberExpression;
+
+  while (currentLevel.child) {
+    currentLevel = currentLevel.child;
+  }
+
+  return t.isIdentifier(currentLevel.node) ? currentLevel.node : undefined;
+};
+
 const deepMemberExpressionToPath = (
   memberExpression: DeepMemberExpression,
 ): string[] => {
@@ -124,39 +248,31 @@ export const objectExpressionWithDeepPath = <Result>(
     parseNode: (node, context) => {
       let currentIndex = 0;
       let currentNode: t.Node | undefined = node;
+      let currentContext = context;
 
       while (path[currentIndex]) {
         const pathSection = path[currentIndex];
 
         const objectProperties = getPropertiesOfObjectExpression(
           currentNode as any,
-          context,
+          currentContext,
         );
 
-        currentNode = (
-          objectProperties.find(
-            (property) =>
-              property.key === pathSection && t.isObjectProperty(property.node),
-          )?.node as t.ObjectProperty
-        )?.value;
+        const property = objectProperties.find(
+          (property) =>
+            property.key === pathSection && t.isObjectProperty(property.node),
+        );
+
+        currentNode = (property?.node as t.ObjectProperty)?.value;
+        currentContext = property?.context || currentContext;
 
         currentIndex++;
       }
 
-      return parser.parse(currentNode, context);
+      return parser.parse(currentNode, currentContext);
     },
   });
 
-const getRootIdentifierOfDeepMemberExpression = (
-  deepMemberExpression: DeepMemberExpression | undefined,
-): t.Identifier | undefined => {
-  if (!deepMemberExpressionToPath) return undefined;
-  if (t.isIdentifier(deepMemberExpression?.node)) {
-    return deepMemberExpression?.node;
-  }
-  return getRootIdentifierOfDeepMemberExpression(deepMemberExpression?.child);
-};
-
 export const memberExpressionReferencingObjectExpression = <Result>(
   parser: AnyParser<Result>,
 ) =>
@@ -165,15 +281,23 @@ export const memberExpressionReferencingObjectExpression = <Result>(
     parseNode: (node, context) => {
       const result = deepMemberExpression.parse(node, context);
 
-      const rootIdentifier = getRootIdentifierOfDeepMemberExpression(result);
-
       if (!result) return undefined;
 
       const path = deepMemberExpressionToPath(result);
+      const rootIdentifier = getRootIdentifierOfDeepMemberExpression(result);
 
-      return identifierReferencingVariableDeclaration(
-        objectExpressionWithDeepPath(path.slice(1), parser),
-      ).parse(rootIdentifier, context);
+      if (!rootIdentifier) return undefined;
+
+      const root = resolveMemberExpressionRoot(path, rootIdentifier, context);
+
+      if (!root) return undefined;
+
+      const valueParser =
+        root.path.length > 0
+          ? objectExpressionWithDeepPath(root.path, parser)
+          : parser;
+
+      return valueParser.parse(root.resolved.node, root.resolved.context);
     },
   });
 
@@ -182,20 +306,20 @@ export const memberExpressionReferencingEnumMember = createParser({
   parseNode: (node, context) => {
     const result = deepMemberExpression.parse(node, context);
 
-    const rootIdentifier = getRootIdentifierOfDeepMemberExpression(result);
-
     if (!result) return undefined;
 
     const path = deepMemberExpressionToPath(result);
+    const rootIdentifier = getRootIdentifierOfDeepMemberExpression(result);
 
-    const foundEnum = findTSEnumDeclarationWithName(
-      context.file,
-      rootIdentifier?.name!,
-    );
+    if (!rootIdentifier) return undefined;
+
+    const root = resolveMemberExpressionRoot(path, rootIdentifier, context);
+
+    if (!root || !t.isTSEnumDeclaration(root.resolved.node)) return undefined;
 
-    if (!foundEnum) return undefined;
+    const foundEnum = root.resolved.node;
 
-    const targetEnumMember = path[1];
+    const targetEnumMember = root.path[0];
 
     const valueParser = unionType([
       wrapParserResult(
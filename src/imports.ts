@@ -0,0 +1,225 @@
+import traverse, { Scope } from "@babel/traverse";
+import * as t from "@babel/types";
+import { reportDiagnostic } from "./diagnostics";
+import { resolveLocalName } from "./identifiers";
+import { getNameOfModuleExport, indexFile } from "./fileIndex";
+import { parseFile } from "./parseFile";
+import { ParserContext } from "./types";
+
+/**
+ * The node a name resolved to, alongside the context of
+ * the file it was found in. Keep parsing the node with
+ * this context so that names inside it resolve
+ * relative to that file
+ */
+export interface ResolvedDeclaration {
+  node: t.Node | null | undefined;
+  context: ParserContext;
+}
+
+const getProgramScope = (file: t.File): Scope => {
+  let scope: Scope | undefined;
+
+  traverse(file as any, {
+    Program(path) {
+      scope = path.scope;
+      path.stop();
+    },
+  });
+
+  return scope!;
+};
+
+/**
+ * Resolves, reads and parses the module imported via the
+ * specifier, returning a context for parsing inside it
+ */
+const loadModule = (
+  specifier: string,
+  context: ParserContext,
+): ParserContext | undefined => {
+  const resolver = context.resolver;
+  if (!resolver) return undefined;
+
+  const filePath = resolver.host.resolveModule(specifier, context.filePath);
+  if (!filePath) return undefined;
+
+  if (!(filePath in resolver.files)) {
+    resolver.files[filePath] = null;
+    const fileContents = resolver.host.readFile(filePath);
+    if (typeof fileContents === "string") {
+      try {
+        const file = parseFile(fileContents, filePath);
+        resolver.files[filePath] = {
+          file,
+          contents: fileContents,
+          scope: getProgramScope(file),
+          index: indexFile(file),
+        };
+      } catch (e) {}
+    }
+  }
+
+  const loadedModule = resolver.files[filePath];
+
+  if (!loadedModule) return undefined;
+
+  return {
+    ...context,
+    file: loadedModule.file,
+    index: loadedModule.index,
+    scope: loadedModule.scope,
+    filePath,
+    fileContents: loadedModule.contents,
+  };
+};
+
+/**
+ * Finds a declaration exported from a module under the name
+ * you provide, following re-exports into other modules
+ */
+export const resolveExportedName = (
+  exportName: string,
+  moduleContext: ParserContext,
+  seen: string[] = [],
+): ResolvedDeclaration | undefined => {
+  const key = `${moduleContext.filePath}:${exportName}`;
+  if (seen.includes(key)) return undefined;
+  seen.push(key);
+
+  const body = moduleContext.file.program.body;
+
+  for (const statement of body) {
+    if (t.isExportNamedDeclaration(statement)) {
+      const declaration = statement.declaration;
+
+      if (t.isVariableDeclaration(declaration)) {
+        const declarator = declaration.declarations.find(
+          (declarator) =>
+            t.isIdentifier(declarator.id) && declarator.id.name === exportName,
+        );
+        if (declarator) {
+          return { node: declarator.init, context: moduleContext };
+        }
+      } else if (
+        (t.isTSEnumDeclaration(declaration) ||
+          t.isFunctionDeclaration(declaration) ||
+          t.isClassDeclaration(declaration)) &&
+        declaration.id?.name === exportName
+      ) {
+        return { node: declaration, context: moduleContext };
+      }
+
+      for (const specifier of statement.specifiers) {
+        if (
+          !t.isExportSpecifier(specifier) ||
+          getNameOfModuleExport(specifier.exported) !== exportName
+        ) {
+          continue;
+        }
+
+        if (statement.source) {
+          const reExportedModule = loadModule(
+            statement.source.value,
+            moduleContext,
+          );
+          if (!reExportedModule) return undefined;
+          return resolveExportedName(
+            specifier.local.name,
+            reExportedModule,
+            seen,
+          );
+        }
+
+        return resolveLocalName(specifier.local, moduleContext, seen);
+      }
+    }
+
+    if (t.isExportDefaultDeclaration(statement) && exportName === "default") {
+      if (t.isIdentifier(statement.declaration)) {
+        return resolveLocalName(statement.declaration, moduleContext, seen);
+      }
+      return { node: statement.declaration, context: moduleContext };
+    }
+  }
+
+  for (const statement of body) {
+    if (!t.isExportAllDeclaration(statement)) continue;
+
+    const reExportedModule = loadModule(statement.source.value, moduleContext);
+    if (!reExportedModule) continue;
+
+    const result = resolveExportedName(exportName, reExportedModule, seen);
+    if (result) return result;
+  }
+};
+
+/**
+ * Follows an import of the name you provide into the
+ * module it came from
+ */
+export const resolveImportedName = (
+  name: string,
+  context: ParserContext,
+  seen: string[] = [],
+): ResolvedDeclaration | undefined => {
+  if (!context.resolver) return undefined;
+
+  const importedName = context.index.imports[name];
+
+  if (!importedName || importedName.importedName === "*") return undefined;
+
+  const moduleContext = loadModule(importedName.source, context);
+
+  const result =
+    moduleContext &&
+    resolveExportedName(importedName.importedName, moduleContext, seen);
+
+  if (!result) {
+    reportDiagnostic(context, {
+      code: "unresolved-import",
+      message: `Could not resolve "${importedName.importedName}" imported from "${importedName.source}"`,
+      node: importedName.node,
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Resolves the root of a member expression path, such as
+ * ['STATES', 'idle']. When the root is a namespace import,
+ * the export it points to is resolved instead and the
+ * remaining path is returned without it
+ */
+export const resolveMemberExpressionRoot = (
+  path: string[],
+  rootIdentifier: t.Identifier,
+  context: ParserContext,
+): { resolved: ResolvedDeclaration; path: string[] } | undefined => {
+  const exportName = path[1];
+
+  const namespaceImport = context.resolver
+    ? context.index.imports[rootIdentifier.name]
+    : undefined;
+
+  const isShadowed =
+    context.scope &&
+    context.scope.getBinding(rootIdentifier.name)?.kind !== "module";
+
+  if (namespaceImport?.importedName === "*" && exportName && !isShadowed) {
+    const moduleContext = loadModule(namespaceImport.source, context);
+    const resolved =
+      moduleContext && resolveExportedName(exportName, moduleContext);
+
+    if (!resolved) return undefined;
+
+    return { resolved, path: path.slice(2) };
+  }
+
+  const resolved = resolveLocalName(rootIdentifier, context);
+
+  if (!resolved) return undefined;
+
+  return { resolved, path: path.slice(1) };
+};
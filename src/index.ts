@@ -3,4 +3,25 @@ export * from "./constants";
 export * from "./stateNode";
 export * from "xstate/lib/types";
 export * from "./parseMachinesFromFile";
+export * from "./MachineParserCache";
 export * from "./groupByUniqueName";
+export * from "./printMachineConfig";
+export * from "./sourceEdits";
+export type { ResolvedTransitionTarget } from "./transitionTargets";
+export type { ModelEvent } from "./model";
+export type { EventTypeDefinition, PayloadSchema } from "./eventTypes";
+export type { ConfigSourceMap, SourceMapEntry } from "./sourceMap";
+export type { MachineElement } from "./positions";
+export type {
+  StaticValue,
+  StaticValuePlaceholder,
+  StaticValuePlaceholderType,
+} from "./staticValue";
+export { isStaticValuePlaceholder } from "./staticValue";
+export * from "./lint";
+export * from "./typegen";
+export * from "./toMermaid";
+export * from "./toDot";
+export * from "./toSCXML";
+export * from "./fromSCXML";
+export * from "./toPlantUML";
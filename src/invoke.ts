@@ -4,6 +4,7 @@ import { INLINE_IMPLEMENTATION_TYPE } from "./constants";
 import { createParser } from "./createParser";
 import { maybeIdentifierTo } from "./identifiers";
 import { BooleanLiteral, StringLiteral } from "./scalars";
+import { StaticValueParser } from "./staticValue";
 import { MaybeTransitionArray } from "./transitions";
 import { maybeTsAsExpression } from "./tsAsExpression";
 import { unionType } from "./unionType";
@@ -64,16 +65,45 @@ const InvokeSrcIdentifier = createParser({
   }),
 });
 
+const actorLogicCreators = [
+  "fromPromise",
+  "fromCallback",
+  "fromObservable",
+  "fromEventObservable",
+  "fromTransition",
+  "createMachine",
+];
+
+/**
+ * XState v5 actor logic declared inline, such
+ * as src: fromPromise(async () => {})
+ */
+const InvokeSrcActorLogic = createParser({
+  babelMatcher: (node): node is t.CallExpression =>
+    t.isCallExpression(node) &&
+    t.isIdentifier(node.callee) &&
+    actorLogicCreators.includes(node.callee.name),
+  parseNode: (node): InvokeNode => ({
+    value: INLINE_IMPLEMENTATION_TYPE,
+    node,
+    declarationType: "inline",
+  }),
+});
+
 const InvokeSrc = unionType([
   InvokeSrcStringLiteral,
   InvokeSrcFunctionExpression,
+  InvokeSrcActorLogic,
   InvokeSrcIdentifier,
   InvokeSrcNode,
 ]);
 
 const InvokeConfigObject = objectTypeWithKnownKeys({
   id: StringLiteral,
+  systemId: StringLiteral,
   src: InvokeSrc,
+  input: StaticValueParser,
+  data: StaticValueParser,
   onDone: MaybeTransitionArray,
   onError: MaybeTransitionArray,
   autoForward: BooleanLiteral,
@@ -0,0 +1,110 @@
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: number | string;
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: number | string | null;
+  result?: any;
+  error?: { code: number; message: string };
+}
+
+export type JsonRpcMessage =
+  | JsonRpcRequest
+  | JsonRpcNotification
+  | JsonRpcResponse;
+
+export const JsonRpcErrorCodes = {
+  ParseError: -32700,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+export const isJsonRpcRequest = (
+  message: JsonRpcMessage,
+): message is JsonRpcRequest => {
+  return "method" in message && "id" in message && message.id !== undefined;
+};
+
+export const isJsonRpcNotification = (
+  message: JsonRpcMessage,
+): message is JsonRpcNotification => {
+  return "method" in message && !("id" in message && message.id !== undefined);
+};
+
+const HEADER_DELIMITER = "\r\n\r\n";
+
+/**
+ * Frames a message with the Content-Length header
+ * the Language Server Protocol uses
+ */
+export const encodeMessage = (message: JsonRpcMessage): Buffer => {
+  const content = Buffer.from(JSON.stringify(message), "utf8");
+
+  return Buffer.concat([
+    Buffer.from(
+      `Content-Length: ${content.length}${HEADER_DELIMITER}`,
+      "ascii",
+    ),
+    content,
+  ]);
+};
+
+/**
+ * Returns a function to feed chunks of a stream to, which
+ * calls onMessage for each complete message. Chunks can
+ * split messages, or hold more than one
+ */
+export const createMessageReader = (
+  onMessage: (message: JsonRpcMessage) => void,
+  onError: (error: Error) => void = () => {},
+) => {
+  let buffer = Buffer.alloc(0);
+
+  return (chunk: Buffer | string) => {
+    buffer = Buffer.concat([
+      buffer,
+      typeof chunk === "string" ? Buffer.from(chunk, "utf8") : chunk,
+    ]);
+
+    while (true) {
+      const headerEnd = buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) return;
+
+      const header = buffer.slice(0, headerEnd).toString("ascii");
+      const contentLength = header.match(/Content-Length: *(\d+)/i)?.[1];
+
+      if (!contentLength) {
+        buffer = buffer.slice(headerEnd + HEADER_DELIMITER.length);
+        onError(new Error(`Missing Content-Length in header: ${header}`));
+        continue;
+      }
+
+      const contentStart = headerEnd + HEADER_DELIMITER.length;
+      const contentEnd = contentStart + Number(contentLength);
+      if (buffer.length < contentEnd) return;
+
+      const content = buffer.slice(contentStart, contentEnd).toString("utf8");
+      buffer = buffer.slice(contentEnd);
+
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(content);
+      } catch (e: any) {
+        onError(e);
+        continue;
+      }
+      onMessage(message);
+    }
+  };
+};
@@ -0,0 +1,754 @@
+import * as t from "@babel/types";
+import { fileURLToPath, pathToFileURL } from "url";
+import { createFileSystemResolverHost } from "./fileSystemResolverHost";
+import {
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  JsonRpcErrorCodes,
+  JsonRpcMessage,
+} from "./jsonRpc";
+import { LintConfig, lintMachine } from "./lint";
+import { MachineParseResult } from "./MachineParseResult";
+import { MachineParserCache } from "./MachineParserCache";
+import { findInnermost, isPositionInNode } from "./positions";
+import { printKey } from "./printMachineConfig";
+import { detectQuoteStyle } from "./sourceEdits";
+import { ResolvedTransitionTarget } from "./transitionTargets";
+import { Diagnostic, ParseResult, ResolverHost } from "./types";
+import { getNodeFilename, getPathKey, isBuiltInEvent } from "./utils";
+
+export interface LspPosition {
+  /**
+   * 0-based, unlike Babel's lines
+   */
+  line: number;
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export interface LspLocation {
+  uri: string;
+  range: LspRange;
+}
+
+interface LspDiagnostic {
+  range: LspRange;
+  severity: number;
+  code: string;
+  source: string;
+  message: string;
+}
+
+interface TextDocumentContentChange {
+  range?: LspRange;
+  text: string;
+}
+
+interface OpenDocument {
+  uri: string;
+  version: number;
+  text: string;
+  /**
+   * The path the cache knows the document by, which is
+   * the uri when the document isn't a file
+   */
+  filePath: string;
+}
+
+export interface LanguageServerOptions {
+  send: (message: JsonRpcMessage) => void;
+  /**
+   * Called on the exit notification, with 0 when the
+   * client asked the server to shut down first
+   */
+  onExit?: (code: number) => void;
+  /**
+   * Reads the files imported by open documents. Defaults
+   * to reading from disk
+   */
+  resolverHost?: ResolverHost;
+}
+
+const DiagnosticSeverity = { Error: 1, Warning: 2, Information: 3 } as const;
+
+const CompletionItemKind = { Reference: 18, Event: 23 } as const;
+
+const MessageType = { Error: 1 } as const;
+
+/**
+ * Whether the text can be synced in full, or as changes
+ * to ranges of it
+ */
+const TextDocumentSyncKind = { Incremental: 2 } as const;
+
+const getFilePathOfUri = (uri: string) => {
+  return uri.startsWith("file:") ? fileURLToPath(uri) : uri;
+};
+
+const getOffsetOfPosition = (text: string, position: LspPosition) => {
+  let offset = 0;
+
+  for (let line = 0; line < position.line; line++) {
+    const lineEnd = text.indexOf("\n", offset);
+    if (lineEnd === -1) return text.length;
+    offset = lineEnd + 1;
+  }
+
+  return Math.min(offset + position.character, text.length);
+};
+
+/**
+ * Applies the changes of a didChange notification, which
+ * replace either a range or the whole text
+ */
+export const applyContentChanges = (
+  text: string,
+  changes: TextDocumentContentChange[],
+) => {
+  return changes.reduce((currentText, change) => {
+    if (!change.range) return change.text;
+
+    return (
+      currentText.slice(
+        0,
+        getOffsetOfPosition(currentText, change.range.start),
+      ) +
+      change.text +
+      currentText.slice(getOffsetOfPosition(currentText, change.range.end))
+    );
+  }, text);
+};
+
+const toLspRange = (node: t.Node): LspRange | undefined => {
+  if (!node.loc) return undefined;
+
+  return {
+    start: { line: node.loc.start.line - 1, character: node.loc.start.column },
+    end: { line: node.loc.end.line - 1, character: node.loc.end.column },
+  };
+};
+
+/**
+ * The range of the text inside a string literal,
+ * leaving the quotes out
+ */
+const toLspRangeInsideNode = (node: t.Node): LspRange | undefined => {
+  const range = toLspRange(node);
+  if (!range || !t.isStringLiteral(node)) return range;
+
+  return {
+    start: { ...range.start, character: range.start.character + 1 },
+    end: { ...range.end, character: range.end.character - 1 },
+  };
+};
+
+/**
+ * Answers the requests of an editor about the machines in
+ * the documents it has open. Documents are parsed when they
+ * change, reusing the machines the change left untouched
+ */
+export class LanguageServer {
+  private documents: Record<string, OpenDocument> = {};
+  private lintConfig: LintConfig = {};
+  private isInitialized = false;
+  private isShutdown = false;
+  private cache: MachineParserCache;
+
+  constructor(private options: LanguageServerOptions) {
+    this.cache = new MachineParserCache({
+      resolverHost: options.resolverHost || createFileSystemResolverHost(),
+    });
+  }
+
+  handleMessage = (message: JsonRpcMessage) => {
+    if (isJsonRpcRequest(message)) {
+      const { id, method, params } = message;
+
+      if (!this.isInitialized && method !== "initialize") {
+        this.options.send({
+          jsonrpc: "2.0",
+          id,
+          error: {
+            code: JsonRpcErrorCodes.ServerNotInitialized,
+            message: "The server has not been initialized",
+          },
+        });
+        return;
+      }
+
+      const handler = this.requestHandlers[method];
+
+      if (!handler) {
+        this.options.send({
+          jsonrpc: "2.0",
+          id,
+          error: {
+            code: JsonRpcErrorCodes.MethodNotFound,
+            message: `Unhandled method ${method}`,
+          },
+        });
+        return;
+      }
+
+      try {
+        this.options.send({ jsonrpc: "2.0", id, result: handler(params) });
+      } catch (e: any) {
+        this.options.send({
+          jsonrpc: "2.0",
+          id,
+          error: { code: JsonRpcErrorCodes.InternalError, message: e.message },
+        });
+      }
+    } else if (isJsonRpcNotification(message)) {
+      /**
+       * Notifications have no response to carry the error,
+       * so it's logged to the client instead
+       */
+      try {
+        this.notificationHandlers[message.method]?.(message.params);
+      } catch (e: any) {
+        this.options.send({
+          jsonrpc: "2.0",
+          method: "window/logMessage",
+          params: {
+            type: MessageType.Error,
+            message: `Could not handle ${message.method}: ${e.message}`,
+          },
+        });
+      }
+    }
+  };
+
+  private requestHandlers: Record<string, (params: any) => unknown> = {
+    initialize: (params) => {
+      this.isInitialized = true;
+      this.lintConfig = params?.initializationOptions?.lint || {};
+
+      return {
+        capabilities: {
+          textDocumentSync: {
+            openClose: true,
+            change: TextDocumentSyncKind.Incremental,
+          },
+          definitionProvider: true,
+          referencesProvider: true,
+          hoverProvider: true,
+          completionProvider: { triggerCharacters: ["'", '"', ".", "#"] },
+        },
+        serverInfo: { name: "xstate-parser" },
+      };
+    },
+    shutdown: () => {
+      this.isShutdown = true;
+      return null;
+    },
+    "textDocument/definition": (params) =>
+      this.getDefinition(params.textDocument.uri, params.position),
+    "textDocument/references": (params) =>
+      this.getReferences(
+        params.textDocument.uri,
+        params.position,
+        Boolean(params.context?.includeDeclaration),
+      ),
+    "textDocument/completion": (params) =>
+      this.getCompletions(params.textDocument.uri, params.position),
+    "textDocument/hover": (params) =>
+      this.getHover(params.textDocument.uri, params.position),
+  };
+
+  private notificationHandlers: Record<string, (params: any) => void> = {
+    exit: () => {
+      this.options.onExit?.(this.isShutdown ? 0 : 1);
+    },
+    "textDocument/didOpen": (params) => {
+      const { uri, version, text } = params.textDocument;
+
+      this.documents[uri] = {
+        uri,
+        version,
+        text,
+        filePath: getFilePathOfUri(uri),
+      };
+      this.onDocumentChanged(uri);
+    },
+    "textDocument/didChange": (params) => {
+      const document = this.documents[params.textDocument.uri];
+      if (!document) return;
+
+      const text = applyContentChanges(document.text, params.contentChanges);
+
+      document.version = params.textDocument.version;
+      if (text === document.text) return;
+
+      document.text = text;
+      this.onDocumentChanged(document.uri);
+    },
+    "textDocument/didClose": (params) => {
+      const { uri } = params.textDocument;
+
+      const document = this.documents[uri];
+      if (!document) return;
+
+      delete this.documents[uri];
+      this.cache.removeFile(document.filePath);
+      this.publishDiagnostics(uri, []);
+    },
+  };
+
+  /**
+   * Parses the document again, and sends the new diagnostics
+   * of it and of the documents importing it
+   */
+  private onDocumentChanged = (uri: string) => {
+    const document = this.documents[uri];
+
+    try {
+      this.cache.updateFile(document.filePath, document.text, document.version);
+    } catch (e) {
+      this.cache.removeFile(document.filePath);
+    }
+
+    this.publishDiagnostics(uri, this.getDiagnostics(uri));
+
+    this.cache.getFilesDependingOn(document.filePath).forEach((filePath) => {
+      const dependent = this.getDocumentOfFilePath(filePath);
+
+      if (dependent) {
+        this.publishDiagnostics(
+          dependent.uri,
+          this.getDiagnostics(dependent.uri),
+        );
+      }
+    });
+  };
+
+  /**
+   * Returns undefined when the text of the document
+   * cannot be parsed
+   */
+  private getParseResult = (uri: string): ParseResult | undefined => {
+    const document = this.documents[uri];
+    if (!document) return undefined;
+
+    try {
+      return this.cache.getFile(document.filePath);
+    } catch (e) {
+      return undefined;
+    }
+  };
+
+  private getDocumentOfFilePath = (filePath: string) => {
+    const uri = Object.keys(this.documents).find(
+      (uri) => this.documents[uri].filePath === filePath,
+    );
+
+    return uri ? this.documents[uri] : undefined;
+  };
+
+  private getMachineAtPosition = (uri: string, position: LspPosition) => {
+    return this.getParseResult(uri)?.findMachineAtPosition(
+      position.line + 1,
+      position.character,
+    );
+  };
+
+  /**
+   * Nodes imported from other files point to them,
+   * the others to the document
+   */
+  private toLspLocation = (
+    uri: string,
+    node: t.Node,
+  ): LspLocation | undefined => {
+    const range = toLspRange(node);
+    if (!range) return undefined;
+
+    const filePath = getNodeFilename(node);
+    const document = this.documents[uri];
+
+    return {
+      uri:
+        filePath && filePath !== document?.filePath
+          ? pathToFileURL(filePath).toString()
+          : uri,
+      range,
+    };
+  };
+
+  private publishDiagnostics = (uri: string, diagnostics: LspDiagnostic[]) => {
+    this.options.send({
+      jsonrpc: "2.0",
+      method: "textDocument/publishDiagnostics",
+      params: { uri, diagnostics },
+    });
+  };
+
+  /**
+   * Gets the diagnostics of the parser and the lint findings
+   * of the machines in the document. Parser diagnostics
+   * which a lint finding already covers are left out
+   */
+  private getDiagnostics = (uri: string) => {
+    const document = this.documents[uri];
+    const diagnostics: LspDiagnostic[] = [];
+
+    const addDiagnostic = (
+      finding: Pick<
+        Diagnostic,
+        "location" | "filePath" | "severity" | "message"
+      >,
+      code: string,
+    ) => {
+      if (!finding.location) return;
+      if (finding.filePath && finding.filePath !== document.filePath) return;
+
+      const range = {
+        start: {
+          line: finding.location.start.line - 1,
+          character: finding.location.start.column,
+        },
+        end: {
+          line: finding.location.end.line - 1,
+          character: finding.location.end.column,
+        },
+      };
+      const isCovered = diagnostics.some(
+        (diagnostic) =>
+          JSON.stringify(diagnostic.range) === JSON.stringify(range),
+      );
+      if (isCovered) return;
+
+      diagnostics.push({
+        range,
+        severity: {
+          error: DiagnosticSeverity.Error,
+          warning: DiagnosticSeverity.Warning,
+          info: DiagnosticSeverity.Information,
+        }[finding.severity],
+        code,
+        source: "xstate",
+        message: finding.message,
+      });
+    };
+
+    this.getParseResult(uri)?.machines.forEach((machine) => {
+      if (machine.getIsIgnored()) return;
+
+      lintMachine(machine, this.lintConfig).forEach((finding) => {
+        addDiagnostic(finding, finding.rule);
+      });
+      machine.getDiagnostics().forEach((diagnostic) => {
+        addDiagnostic(diagnostic, diagnostic.code);
+      });
+    });
+
+    return diagnostics;
+  };
+
+  private getDefinition = (
+    uri: string,
+    position: LspPosition,
+  ): LspLocation | null => {
+    const machine = this.getMachineAtPosition(uri, position);
+    if (!machine) return null;
+
+    const line = position.line + 1;
+    const column = position.character;
+
+    const target = findTargetAtPosition(machine, line, column);
+
+    if (target) {
+      const declaration =
+        target.resolvedPath &&
+        getStateNodeDeclaration(machine, target.resolvedPath);
+
+      return (declaration && this.toLspLocation(uri, declaration)) || null;
+    }
+
+    const element = machine.getNodeAtPosition(line, column);
+
+    const implementation =
+      element?.type === "action"
+        ? machine.getActionImplementation(element.name)
+        : element?.type === "guard"
+        ? machine.getGuardImplementation(element.name)
+        : element?.type === "service"
+        ? machine.getServiceImplementation(element.src)
+        : undefined;
+
+    return (
+      (implementation && this.toLspLocation(uri, implementation.keyNode)) ||
+      null
+    );
+  };
+
+  /**
+   * Finds the references of the event or the state node
+   * under the cursor, within its machine
+   */
+  private getReferences = (
+    uri: string,
+    position: LspPosition,
+    includeDeclaration: boolean,
+  ): LspLocation[] | null => {
+    const machine = this.getMachineAtPosition(uri, position);
+    if (!machine) return null;
+
+    const line = position.line + 1;
+    const column = position.character;
+    const nodes: t.Node[] = [];
+
+    const event = findEventKeyAtPosition(machine, line, column);
+    const statePath =
+      findTargetAtPosition(machine, line, column)?.resolvedPath ||
+      findStateKeyAtPosition(machine, line, column);
+
+    if (event !== undefined) {
+      machine.getAllStateNodes().forEach((stateNode) => {
+        stateNode.ast.on?.properties.forEach((property) => {
+          if (property.key === event) nodes.push(property.keyNode);
+        });
+      });
+
+      if (includeDeclaration) {
+        machine.getDeclaredEventTypes()?.forEach((eventType) => {
+          if (eventType.type === event) nodes.push(eventType.node);
+        });
+      }
+    } else if (statePath) {
+      const declaration = getStateNodeDeclaration(machine, statePath);
+      if (includeDeclaration && declaration) nodes.push(declaration);
+
+      machine.getResolvedTransitionTargets().forEach((target) => {
+        if (
+          target.resolvedPath &&
+          getPathKey(target.resolvedPath) === getPathKey(statePath)
+        ) {
+          nodes.push(target.target.node);
+        }
+      });
+
+      const parent = machine.getStateNodeByPath(statePath.slice(0, -1));
+      const initial = parent?.ast.initial;
+      if (
+        statePath.length &&
+        initial?.value === statePath[statePath.length - 1]
+      ) {
+        nodes.push(initial.node);
+      }
+    } else {
+      return null;
+    }
+
+    return nodes
+      .map((node) => this.toLspLocation(uri, node))
+      .filter((location): location is LspLocation => Boolean(location));
+  };
+
+  /**
+   * Completes the targets of transitions, and the
+   * events in the keys of on
+   */
+  private getCompletions = (uri: string, position: LspPosition) => {
+    const machine = this.getMachineAtPosition(uri, position);
+    if (!machine) return null;
+
+    const line = position.line + 1;
+    const column = position.character;
+
+    const target = findTargetAtPosition(machine, line, column);
+
+    if (target) {
+      const range = toLspRangeInsideNode(target.target.node);
+
+      return getTargetSuggestions(machine, target.fromPath).map((label) => ({
+        label,
+        kind: CompletionItemKind.Reference,
+        ...(range && { textEdit: { range, newText: label } }),
+      }));
+    }
+
+    const on = machine
+      .getAllStateNodes()
+      .map((stateNode) => stateNode.ast.on)
+      .find((on) => on && isPositionInNode(on.node, line, column));
+
+    if (!on) return null;
+
+    const isInTransition = on.properties.some((property) =>
+      property.result.some((transition) =>
+        isPositionInNode(transition.node, line, column),
+      ),
+    );
+
+    if (isInTransition) return null;
+
+    const keyNode = on.properties.find((property) =>
+      isPositionInNode(property.keyNode, line, column),
+    )?.keyNode;
+    const range = keyNode && toLspRangeInsideNode(keyNode);
+    const quote = detectQuoteStyle(this.documents[uri].text);
+
+    return getEventSuggestions(machine).map((event) => {
+      const newText =
+        keyNode && t.isStringLiteral(keyNode) ? event : printKey(event, quote);
+
+      return {
+        label: event,
+        kind: CompletionItemKind.Event,
+        ...(range ? { textEdit: { range, newText } } : { insertText: newText }),
+      };
+    });
+  };
+
+  /**
+   * Shows the meta.description of the state node whose key
+   * or target is under the cursor
+   */
+  private getHover = (uri: string, position: LspPosition) => {
+    const machine = this.getMachineAtPosition(uri, position);
+    if (!machine) return null;
+
+    const line = position.line + 1;
+    const column = position.character;
+
+    const target = findTargetAtPosition(machine, line, column);
+    const statePath = target
+      ? target.resolvedPath
+      : findStateKeyAtPosition(machine, line, column);
+
+    const stateNode = statePath && machine.getStateNodeByPath(statePath);
+    const description = stateNode?.ast.meta?.description?.value;
+
+    if (!stateNode || !description) return null;
+
+    const range = toLspRange(
+      target
+        ? target.target.node
+        : getStateNodeDeclaration(machine, statePath!)!,
+    );
+
+    return {
+      contents: {
+        kind: "markdown",
+        value: `**${machine.getStateNodeId(
+          stateNode.path,
+        )}**\n\n${description}`,
+      },
+      ...(range && { range }),
+    };
+  };
+}
+
+const findTargetAtPosition = (
+  machine: MachineParseResult,
+  line: number,
+  column: number,
+): ResolvedTransitionTarget | undefined => {
+  return findInnermost(
+    machine.getResolvedTransitionTargets().map((target) => ({
+      node: target.target.node,
+      value: target,
+    })),
+    line,
+    column,
+  );
+};
+
+const findEventKeyAtPosition = (
+  machine: MachineParseResult,
+  line: number,
+  column: number,
+): string | undefined => {
+  for (const stateNode of machine.getAllStateNodes()) {
+    const property = stateNode.ast.on?.properties.find((property) =>
+      isPositionInNode(property.keyNode, line, column),
+    );
+    if (property) return property.key;
+  }
+};
+
+const findStateKeyAtPosition = (
+  machine: MachineParseResult,
+  line: number,
+  column: number,
+): string[] | undefined => {
+  for (const stateNode of machine.getAllStateNodes()) {
+    const property = stateNode.ast.states?.properties.find((property) =>
+      isPositionInNode(property.keyNode, line, column),
+    );
+    if (property) return [...stateNode.path, property.key];
+  }
+};
+
+/**
+ * The key of the state node, or the whole config
+ * for the root
+ */
+const getStateNodeDeclaration = (
+  machine: MachineParseResult,
+  path: string[],
+): t.Node | undefined => {
+  if (path.length === 0) return machine.ast.definition?.node;
+
+  const parent = machine.getStateNodeByPath(path.slice(0, -1));
+
+  return parent?.ast.states?.properties.find(
+    (property) => property.key === path[path.length - 1],
+  )?.keyNode;
+};
+
+/**
+ * Suggests the siblings of the state node, its children
+ * and the state nodes with an id
+ */
+const getTargetSuggestions = (
+  machine: MachineParseResult,
+  fromPath: string[],
+) => {
+  const suggestions: string[] = [];
+
+  const getChildKeys = (path: string[]) =>
+    machine
+      .getStateNodeByPath(path)
+      ?.ast.states?.properties.map((property) => property.key) || [];
+
+  if (fromPath.length) {
+    suggestions.push(
+      ...getChildKeys(fromPath.slice(0, -1)).filter(
+        (key) => key !== fromPath[fromPath.length - 1],
+      ),
+    );
+  }
+  suggestions.push(...getChildKeys(fromPath).map((key) => `.${key}`));
+
+  machine.getAllStateNodes().forEach((stateNode) => {
+    if (stateNode.ast.id) suggestions.push(`#${stateNode.ast.id.value}`);
+  });
+
+  return suggestions;
+};
+
+/**
+ * Suggests the declared events, the events of the model
+ * and the events other transitions handle
+ */
+const getEventSuggestions = (machine: MachineParseResult) => {
+  const events: string[] = [];
+
+  const add = (event: string) => {
+    if (!isBuiltInEvent(event) && !events.includes(event)) events.push(event);
+  };
+
+  machine.getDeclaredEventTypes()?.forEach((eventType) => add(eventType.type));
+  machine.getModelEvents().forEach((event) => add(event.name));
+  machine.getAllStateNodes().forEach((stateNode) => {
+    stateNode.ast.on?.properties.forEach((property) => add(property.key));
+  });
+
+  return events;
+};
@@ -0,0 +1,341 @@
+import * as t from "@babel/types";
+import {
+  MachineParseResult,
+  MachineParseResultStateNode,
+} from "./MachineParseResult";
+import { RecordOfArrays } from "./RecordOfArrays";
+import { Location } from "./types";
+import { getNodeFilename, getPathKey, isBuiltInEvent } from "./utils";
+
+export type LintRuleSetting = "off" | "warn" | "error";
+
+export type LintRuleName =
+  | "unknown-target"
+  | "missing-initial"
+  | "invalid-initial"
+  | "unreachable-state"
+  | "duplicate-id"
+  | "final-state-transitions"
+  | "orphan-history"
+  | "undeclared-event";
+
+export type LintConfig = Partial<Record<LintRuleName, LintRuleSetting>>;
+
+export interface LintFinding {
+  rule: LintRuleName;
+  severity: "warning" | "error";
+  message: string;
+  location: Location;
+  /**
+   * Only present when the path of the file was passed
+   * to the parser
+   */
+  filePath?: string;
+}
+
+export interface LintRule {
+  description: string;
+  defaultSetting: LintRuleSetting;
+  check: (
+    machine: MachineParseResult,
+    report: (params: { message: string; node: t.Node }) => void,
+  ) => void;
+}
+
+const describeStateNode = (path: string[]) => {
+  return path.length ? `State "${path.join(".")}"` : "The root state";
+};
+
+const getChildKeys = (stateNode: MachineParseResultStateNode) => {
+  return stateNode.ast.states?.properties.map((property) => property.key) || [];
+};
+
+const isHistoryNode = (stateNode: MachineParseResultStateNode) => {
+  return stateNode.ast.type?.value === "history";
+};
+
+/**
+ * The node to report problems with a whole state node
+ * against: its key, or the callee for the root
+ */
+const getStateNodeKeyNode = (
+  machine: MachineParseResult,
+  stateNode: MachineParseResultStateNode,
+): t.Node => {
+  const parent = machine.getStateNodeByPath(stateNode.path.slice(0, -1));
+  const key = stateNode.path[stateNode.path.length - 1];
+
+  const property = parent?.ast.states?.properties.find(
+    (property) => property.key === key,
+  );
+
+  if (stateNode.path.length === 0 || !property) {
+    return machine.ast.callee;
+  }
+
+  return property.keyNode;
+};
+
+/**
+ * Finds the state nodes which can be entered, starting at the
+ * root and following initial states, parallel regions
+ * and transition targets
+ */
+const getReachableStateNodes = (machine: MachineParseResult) => {
+  const reachable: Record<string, boolean> = {};
+  const stateNodesToVisit: MachineParseResultStateNode[] = [];
+
+  const targetsByPath = new RecordOfArrays<string[]>();
+
+  machine.getResolvedTransitionTargets().forEach((target) => {
+    if (target.resolvedPath) {
+      targetsByPath.add(getPathKey(target.fromPath), target.resolvedPath);
+    }
+  });
+
+  const targets = targetsByPath.toObject();
+
+  const enter = (path: string[]) => {
+    for (let index = 0; index <= path.length; index++) {
+      const stateNode = machine.getStateNodeByPath(path.slice(0, index));
+      if (!stateNode || reachable[getPathKey(stateNode.path)]) continue;
+
+      reachable[getPathKey(stateNode.path)] = true;
+      stateNodesToVisit.push(stateNode);
+    }
+  };
+
+  enter([]);
+
+  while (stateNodesToVisit.length) {
+    const stateNode = stateNodesToVisit.pop()!;
+
+    if (stateNode.ast.type?.value === "parallel") {
+      getChildKeys(stateNode).forEach((key) => {
+        enter([...stateNode.path, key]);
+      });
+    } else if (stateNode.ast.initial) {
+      enter([...stateNode.path, stateNode.ast.initial.value]);
+    } else if (isHistoryNode(stateNode)) {
+      enter(stateNode.path.slice(0, -1));
+    }
+
+    targets[getPathKey(stateNode.path)]?.forEach(enter);
+  }
+
+  return reachable;
+};
+
+export const lintRules: Record<LintRuleName, LintRule> = {
+  "unknown-target": {
+    description: "Transition targets must match a state node",
+    defaultSetting: "error",
+    check: (machine, report) => {
+      machine.getResolvedTransitionTargets().forEach((target) => {
+        if (target.resolvedPath) return;
+
+        report({
+          message: `Target "${target.target.value}" does not match any state node`,
+          node: target.target.node,
+        });
+      });
+    },
+  },
+  "missing-initial": {
+    description: "Compound state nodes must declare an initial state",
+    defaultSetting: "warn",
+    check: (machine, report) => {
+      machine.getAllStateNodes().forEach((stateNode) => {
+        if (
+          getChildKeys(stateNode).length === 0 ||
+          stateNode.ast.initial ||
+          stateNode.ast.type?.value === "parallel"
+        ) {
+          return;
+        }
+
+        report({
+          message: `${describeStateNode(
+            stateNode.path,
+          )} has child states but no initial state`,
+          node: getStateNodeKeyNode(machine, stateNode),
+        });
+      });
+    },
+  },
+  "invalid-initial": {
+    description: "The initial state must be a child of the state node",
+    defaultSetting: "error",
+    check: (machine, report) => {
+      machine.getAllStateNodes().forEach((stateNode) => {
+        const initial = stateNode.ast.initial;
+
+        if (!initial || getChildKeys(stateNode).includes(initial.value)) {
+          return;
+        }
+
+        report({
+          message: `Initial state "${
+            initial.value
+          }" is not a child of ${describeStateNode(
+            stateNode.path,
+          ).toLowerCase()}`,
+          node: initial.node,
+        });
+      });
+    },
+  },
+  "unreachable-state": {
+    description: "State nodes should be reachable from the root state",
+    defaultSetting: "warn",
+    check: (machine, report) => {
+      const reachable = getReachableStateNodes(machine);
+
+      machine.getAllStateNodes().forEach((stateNode) => {
+        const parentPath = stateNode.path.slice(0, -1);
+
+        /**
+         * Only the topmost unreachable state node is
+         * reported, since its children follow
+         */
+        if (
+          reachable[getPathKey(stateNode.path)] ||
+          !reachable[getPathKey(parentPath)]
+        ) {
+          return;
+        }
+
+        report({
+          message: `${describeStateNode(
+            stateNode.path,
+          )} cannot be reached from the root state`,
+          node: getStateNodeKeyNode(machine, stateNode),
+        });
+      });
+    },
+  },
+  "duplicate-id": {
+    description: "Ids must be unique within a machine",
+    defaultSetting: "error",
+    check: (machine, report) => {
+      const seenIds: Record<string, boolean> = {};
+
+      machine.getAllStateNodes().forEach((stateNode) => {
+        const id = stateNode.ast.id;
+        if (!id) return;
+
+        if (seenIds[id.value]) {
+          report({
+            message: `The id "${id.value}" is used by more than one state node`,
+            node: id.node,
+          });
+        }
+
+        seenIds[id.value] = true;
+      });
+    },
+  },
+  "final-state-transitions": {
+    description: "Final state nodes cannot handle events",
+    defaultSetting: "warn",
+    check: (machine, report) => {
+      machine.getAllStateNodes().forEach((stateNode) => {
+        if (
+          stateNode.ast.type?.value !== "final" ||
+          !stateNode.ast.on?.properties.length
+        ) {
+          return;
+        }
+
+        report({
+          message: `${describeStateNode(
+            stateNode.path,
+          )} is final, so its transitions will never be taken`,
+          node: stateNode.ast.on.node,
+        });
+      });
+    },
+  },
+  "orphan-history": {
+    description: "History state nodes must be children of compound states",
+    defaultSetting: "error",
+    check: (machine, report) => {
+      machine.getAllStateNodes().forEach((stateNode) => {
+        if (!isHistoryNode(stateNode)) return;
+
+        const parent = machine.getStateNodeByPath(stateNode.path.slice(0, -1));
+
+        const parentIsCompound =
+          stateNode.path.length > 0 &&
+          parent &&
+          (!parent.ast.type || parent.ast.type.value === "compound") &&
+          getChildKeys(parent).some((key) => {
+            const sibling = machine.getStateNodeByPath([...parent.path, key]);
+            return sibling && !isHistoryNode(sibling);
+          });
+
+        if (parentIsCompound) return;
+
+        report({
+          message: `${describeStateNode(
+            stateNode.path,
+          )} is a history state outside of a compound state`,
+          node: getStateNodeKeyNode(machine, stateNode),
+        });
+      });
+    },
+  },
+  "undeclared-event": {
+    description: "Transitions must handle events declared in the types",
+    defaultSetting: "warn",
+    check: (machine, report) => {
+      const eventTypes = machine.getDeclaredEventTypes();
+      if (!eventTypes?.length) return;
+
+      const declared = eventTypes.map((eventType) => eventType.type);
+
+      machine.getAllStateNodes().forEach((stateNode) => {
+        stateNode.ast.on?.properties.forEach((property) => {
+          if (isBuiltInEvent(property.key) || declared.includes(property.key)) {
+            return;
+          }
+
+          report({
+            message: `Event "${property.key}" is not one of the declared events`,
+            node: property.keyNode,
+          });
+        });
+      });
+    },
+  },
+};
+
+/**
+ * Runs the lint rules over a machine. Rules missing from
+ * the config use their default setting
+ */
+export const lintMachine = (
+  machine: MachineParseResult,
+  config: LintConfig = {},
+): LintFinding[] => {
+  const findings: LintFinding[] = [];
+
+  (Object.keys(lintRules) as LintRuleName[]).forEach((rule) => {
+    const setting = config[rule] || lintRules[rule].defaultSetting;
+    if (setting === "off") return;
+
+    lintRules[rule].check(machine, ({ message, node }) => {
+      const filePath = getNodeFilename(node);
+
+      findings.push({
+        rule,
+        severity: setting === "error" ? "error" : "warning",
+        message,
+        location: node.loc || null,
+        ...(filePath && { filePath }),
+      });
+    });
+  });
+
+  return findings;
+};
@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+import { createMessageReader, encodeMessage } from "./jsonRpc";
+import { LanguageServer, LanguageServerOptions } from "./languageServer";
+
+/**
+ * Runs the language server over a pair of streams,
+ * usually stdin and stdout
+ */
+export const connectLanguageServer = (
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream,
+  options: Omit<LanguageServerOptions, "send"> = {},
+) => {
+  const server = new LanguageServer({
+    ...options,
+    send: (message) => {
+      output.write(encodeMessage(message));
+    },
+  });
+
+  input.on("data", createMessageReader(server.handleMessage));
+
+  return server;
+};
+
+if (require.main === module) {
+  connectLanguageServer(process.stdin, process.stdout, {
+    onExit: (code) => process.exit(code),
+  });
+}
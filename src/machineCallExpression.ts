@@ -4,11 +4,53 @@ import { GetParserResult } from "./utils";
 import { MachineOptions } from "./options";
 import { createParser } from "./createParser";
 import { AnyTypeParameterList } from "./typeParameters";
+import { ParserContext } from "./types";
+import { describeNode, reportDiagnostic } from "./diagnostics";
+import { getModelOfMemberExpression } from "./model";
+import { TypeArgumentEvents } from "./eventTypes";
 
 export type TMachineCallExpression = GetParserResult<
   typeof MachineCallExpression
 >;
 
+const parseDefinition = (node: t.CallExpression, context: ParserContext) => {
+  const definitionNode = node.arguments[0];
+  const definition = StateNode.parse(definitionNode, context);
+
+  if (definitionNode && !definition) {
+    reportDiagnostic(context, {
+      code: "invalid-machine-definition",
+      message: `Could not parse the machine definition, found ${describeNode(
+        definitionNode,
+      )}`,
+      node: definitionNode,
+      severity: "error",
+    });
+  }
+
+  return definition;
+};
+
+/**
+ * XState v5 declares implementations up front with
+ * setup({ actions, guards, actors, delays }).createMachine(config),
+ * so the setup object is treated as the options
+ */
+const parseOptions = (node: t.CallExpression, context: ParserContext) => {
+  const callee = node.callee;
+
+  if (
+    t.isMemberExpression(callee) &&
+    t.isCallExpression(callee.object) &&
+    t.isIdentifier(callee.object.callee) &&
+    callee.object.callee.name === "setup"
+  ) {
+    return MachineOptions.parse(callee.object.arguments[0], context);
+  }
+
+  return MachineOptions.parse(node.arguments[1], context);
+};
+
 export const MachineCallExpression = createParser({
   babelMatcher: t.isCallExpression,
   parseNode: (node, context) => {
@@ -20,10 +62,19 @@ export const MachineCallExpression = createParser({
       return {
         callee: node.callee,
         calleeName: node.callee.property.name,
-        definition: StateNode.parse(node.arguments[0], context),
-        options: MachineOptions.parse(node.arguments[1], context),
+        definition: parseDefinition(node, context),
+        options: parseOptions(node, context),
+        /**
+         * Present when the machine is created with
+         * model.createMachine
+         */
+        model: getModelOfMemberExpression(node.callee, context),
         isMemberExpression: true,
         typeArguments: AnyTypeParameterList.parse(node.typeParameters, context),
+        typeArgumentEvents: TypeArgumentEvents.parse(
+          node.typeParameters,
+          context,
+        ),
         node,
       };
     }
@@ -35,10 +86,15 @@ export const MachineCallExpression = createParser({
       return {
         callee: node.callee,
         calleeName: node.callee.name,
-        definition: StateNode.parse(node.arguments[0], context),
+        definition: parseDefinition(node, context),
         options: MachineOptions.parse(node.arguments[1], context),
+        model: undefined,
         isMemberExpression: false,
         typeArguments: AnyTypeParameterList.parse(node.typeParameters, context),
+        typeArgumentEvents: TypeArgumentEvents.parse(
+          node.typeParameters,
+          context,
+        ),
         node,
       };
     }
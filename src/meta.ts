@@ -1,9 +1,12 @@
 import { StringLiteral, TemplateLiteral } from "./scalars";
+import { withStaticValue } from "./staticValue";
 import { unionType } from "./unionType";
 import { objectTypeWithKnownKeys } from "./utils";
 
 export const MetaDescription = unionType([StringLiteral, TemplateLiteral]);
 
-export const StateMeta = objectTypeWithKnownKeys({
-  description: MetaDescription,
-});
+export const StateMeta = withStaticValue(
+  objectTypeWithKnownKeys({
+    description: MetaDescription,
+  }),
+);
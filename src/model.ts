@@ -0,0 +1,147 @@
+import * as t from "@babel/types";
+import { Context } from "./context";
+import { createParser } from "./createParser";
+import { maybeIdentifierTo } from "./identifiers";
+import { AnyNode } from "./scalars";
+import { AnyParser, ParserContext } from "./types";
+import {
+  GetParserResult,
+  isFunctionOrArrowFunctionExpression,
+  objectOf,
+  objectTypeWithKnownKeys,
+} from "./utils";
+
+export interface ModelEvent {
+  name: string;
+  keyNode: t.Node;
+  /**
+   * The function turning the arguments of
+   * model.events[name]() into the event payload
+   */
+  payloadCreator: t.Node;
+  /**
+   * The names of the arguments the payload creator
+   * takes, if it is declared inline
+   */
+  params: string[];
+}
+
+export type TModelCallExpression = GetParserResult<typeof ModelCallExpression>;
+
+const getParamName = (param: t.Node): string => {
+  if (t.isIdentifier(param)) return param.name;
+  if (t.isAssignmentPattern(param)) return getParamName(param.left);
+  if (t.isRestElement(param)) return getParamName(param.argument);
+  return "";
+};
+
+const ModelCreatorsObject = objectTypeWithKnownKeys({
+  events: objectOf(AnyNode),
+});
+
+/**
+ * Parses createModel(initialContext, { events })
+ */
+export const ModelCallExpression = maybeIdentifierTo(
+  createParser({
+    babelMatcher: (node: any): node is t.CallExpression =>
+      t.isCallExpression(node) &&
+      t.isIdentifier(node.callee) &&
+      node.callee.name === "createModel",
+    parseNode: (node, context) => {
+      const creators = ModelCreatorsObject.parse(node.arguments[1], context);
+
+      const events: ModelEvent[] =
+        creators?.events?.properties.map((property) => {
+          const payloadCreator = property.result.node;
+
+          return {
+            name: property.key,
+            keyNode: property.keyNode,
+            payloadCreator,
+            params: isFunctionOrArrowFunctionExpression(payloadCreator)
+              ? payloadCreator.params.map(getParamName)
+              : [],
+          };
+        }) || [];
+
+      return {
+        node,
+        context: Context.parse(node.arguments[0], context),
+        events,
+      };
+    },
+  }),
+);
+
+/**
+ * Finds the createModel call that the object of
+ * a member expression, like model.assign, refers to
+ */
+export const getModelOfMemberExpression = (
+  node: t.Node,
+  context: ParserContext,
+) => {
+  if (!t.isMemberExpression(node)) return undefined;
+  return ModelCallExpression.parse(node.object, context);
+};
+
+/**
+ * Returns a parser for calls to a method of
+ * a model, like model.assign(assigner, 'EVENT')
+ */
+export const modelMethodCall = <Argument1Result, Argument2Result>(
+  name: string,
+  argument1Parser: AnyParser<Argument1Result>,
+  argument2Parser?: AnyParser<Argument2Result>,
+) => {
+  return createParser({
+    babelMatcher: (node: any): node is t.CallExpression =>
+      t.isCallExpression(node) &&
+      t.isMemberExpression(node.callee) &&
+      t.isIdentifier(node.callee.property) &&
+      node.callee.property.name === name,
+    parseNode: (node, context) => {
+      const model = getModelOfMemberExpression(node.callee, context);
+
+      if (!model) return undefined;
+
+      return {
+        node,
+        model,
+        argument1Result: argument1Parser.parse(node.arguments[0], context),
+        argument2Result: argument2Parser?.parse(node.arguments[1], context),
+      };
+    },
+  });
+};
+
+/**
+ * Parses events created with model.events.NAME(...),
+ * giving back the type of the event
+ */
+export const ModelEventCreatorCall = createParser({
+  babelMatcher: (node: any): node is t.CallExpression =>
+    t.isCallExpression(node) &&
+    t.isMemberExpression(node.callee) &&
+    t.isMemberExpression(node.callee.object) &&
+    t.isIdentifier(node.callee.object.property) &&
+    node.callee.object.property.name === "events",
+  parseNode: (node, context) => {
+    const callee = node.callee as t.MemberExpression;
+    const model = getModelOfMemberExpression(callee.object, context);
+
+    const type = t.isIdentifier(callee.property)
+      ? callee.property.name
+      : t.isStringLiteral(callee.property)
+      ? callee.property.value
+      : undefined;
+
+    if (!model || !type) return undefined;
+
+    return {
+      node: node as t.Node,
+      type,
+    };
+  },
+});
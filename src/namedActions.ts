@@ -14,11 +14,31 @@ import {
 } from "xstate/lib/actions";
 import type { ActionNode } from "./actions";
 import { AnyNode, NumericLiteral, StringLiteral } from "./scalars";
-import { namedFunctionCall } from "./utils";
+import {
+  namedFunctionCall,
+  objectTypeWithKnownKeys,
+  objectWithType,
+} from "./utils";
+import { INLINE_IMPLEMENTATION_TYPE } from "./constants";
+import { ModelEventCreatorCall } from "./model";
 import * as t from "@babel/types";
 import { unionType } from "./unionType";
 import { wrapParserResult } from "./wrapParserResult";
 
+/**
+ * The event passed to raise, sendTo or emit, which
+ * only has a known type when declared statically
+ */
+export const EventArgument = unionType<{ node: t.Node; type?: string }>([
+  wrapParserResult(StringLiteral, (result) => ({
+    node: result.node,
+    type: result.value,
+  })),
+  objectWithType,
+  ModelEventCreatorCall,
+  AnyNode,
+]);
+
 export const AfterAction = wrapParserResult(
   namedFunctionCall(
     "after",
@@ -98,11 +118,11 @@ export const PureAction = wrapParserResult(
 );
 
 export const RaiseAction = wrapParserResult(
-  namedFunctionCall("raise", AnyNode),
+  namedFunctionCall("raise", EventArgument),
   (result): ActionNode => {
     return {
       node: result.node,
-      action: raise(""),
+      action: raise(result.argument1Result?.type || ""),
       name: "",
       declarationType: "inline",
     };
@@ -168,3 +188,60 @@ export const StopAction = wrapParserResult(
     };
   },
 );
+
+export const EmitAction = wrapParserResult(
+  namedFunctionCall("emit", EventArgument),
+  (result): ActionNode => {
+    return {
+      node: result.node,
+      action: {
+        type: "xstate.emit",
+        event: result.argument1Result?.type
+          ? { type: result.argument1Result.type }
+          : INLINE_IMPLEMENTATION_TYPE,
+      },
+      name: "",
+      declarationType: "inline",
+    };
+  },
+);
+
+export const EnqueueActionsAction = wrapParserResult(
+  namedFunctionCall("enqueueActions", AnyNode),
+  (result): ActionNode => {
+    return {
+      node: result.node,
+      action: { type: "xstate.enqueueActions" },
+      name: "",
+      declarationType: "inline",
+    };
+  },
+);
+
+export const SpawnChildAction = wrapParserResult(
+  namedFunctionCall(
+    "spawnChild",
+    unionType<{ node: t.Node; value?: string }>([StringLiteral, AnyNode]),
+    objectTypeWithKnownKeys({
+      id: StringLiteral,
+      systemId: StringLiteral,
+    }),
+  ),
+  (result): ActionNode => {
+    const action: { type: string; src: string; id?: string } = {
+      type: "xstate.spawnChild",
+      src: result.argument1Result?.value ?? INLINE_IMPLEMENTATION_TYPE,
+    };
+
+    if (result.argument2Result?.id) {
+      action.id = result.argument2Result.id.value;
+    }
+
+    return {
+      node: result.node,
+      action,
+      name: "",
+      declarationType: "inline",
+    };
+  },
+);
@@ -6,6 +6,7 @@ import { objectOf, objectTypeWithKnownKeys } from "./utils";
 const MachineOptionsObject = objectTypeWithKnownKeys({
   actions: objectOf(AnyNode),
   services: objectOf(AnyNode),
+  actors: objectOf(AnyNode),
   guards: objectOf(AnyNode),
   delays: objectOf(AnyNode),
   devTools: BooleanLiteral,
@@ -0,0 +1,21 @@
+import * as parser from "@babel/parser";
+import * as t from "@babel/types";
+
+/**
+ * Parses the contents of a file with the plugins
+ * needed to understand TS, JSX and decorators.
+ *
+ * The file path ends up on the loc of every node,
+ * so edits know which file a node came from
+ */
+export const parseFile = (fileContents: string, filePath?: string): t.File => {
+  return parser.parse(fileContents, {
+    sourceType: "module",
+    sourceFilename: filePath,
+    plugins: [
+      "typescript",
+      "jsx",
+      ["decorators", { decoratorsBeforeExport: false }],
+    ],
+  });
+};
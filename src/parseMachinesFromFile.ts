@@ -1,12 +1,44 @@
-import * as parser from "@babel/parser";
 import traverse from "@babel/traverse";
+import * as t from "@babel/types";
 import { MachineConfig } from "xstate";
 import { MachineCallExpression } from "./machineCallExpression";
 import { MachineParseResult } from "./MachineParseResult";
+import { indexFile } from "./fileIndex";
+import { parseFile } from "./parseFile";
+import { findInnermost } from "./positions";
 import { toMachineConfig } from "./toMachineConfig";
-import { ParseResult } from "./types";
+import {
+  ModuleResolver,
+  ParseResult,
+  ParserContext,
+  ResolverHost,
+} from "./types";
 
-export const parseMachinesFromFile = (fileContents: string): ParseResult => {
+export interface ParseMachinesOptions {
+  /**
+   * The path of the file being parsed, used to resolve
+   * relative imports
+   */
+  filePath?: string;
+  /**
+   * When provided, identifiers imported from other files
+   * are resolved by following the imports
+   */
+  resolverHost?: ResolverHost;
+  /**
+   * Lets a cache return a machine it parsed before from the
+   * same source, which is used instead of parsing it again
+   */
+  getPreviousMachine?: (
+    node: t.CallExpression,
+    file: t.File,
+  ) => MachineParseResult | undefined;
+}
+
+export const parseMachinesFromFile = (
+  fileContents: string,
+  options: ParseMachinesOptions = {},
+): ParseResult => {
   if (
     !fileContents.includes("createMachine") &&
     !fileContents.includes("Machine")
@@ -15,22 +47,27 @@ export const parseMachinesFromFile = (fileContents: string): ParseResult => {
       machines: [],
       comments: [],
       file: undefined,
+      diagnostics: [],
+      findMachineAtPosition: () => undefined,
     };
   }
 
-  const parseResult = parser.parse(fileContents, {
-    sourceType: "module",
-    plugins: [
-      "typescript",
-      "jsx",
-      ["decorators", { decoratorsBeforeExport: false }],
-    ],
-  });
+  const parseResult = parseFile(fileContents, options.filePath);
 
   let result: ParseResult = {
     machines: [],
     comments: [],
     file: parseResult,
+    diagnostics: [],
+    findMachineAtPosition: (line, column) =>
+      findInnermost(
+        result.machines.map((machine) => ({
+          node: machine.ast.node,
+          value: machine,
+        })),
+        line,
+        column,
+      ),
   };
 
   parseResult.comments?.forEach((comment) => {
@@ -47,19 +84,48 @@ export const parseMachinesFromFile = (fileContents: string): ParseResult => {
     }
   });
 
+  const index = indexFile(parseResult);
+
+  const resolver: ModuleResolver | undefined = options.resolverHost && {
+    host: options.resolverHost,
+    files: {},
+  };
+
   traverse(parseResult as any, {
     CallExpression(path) {
-      const ast = MachineCallExpression.parse(path.node as any, {
+      const previousMachine = options.getPreviousMachine?.(
+        path.node as any,
+        parseResult,
+      );
+      if (previousMachine) {
+        result.machines.push(previousMachine);
+        result.diagnostics.push(...previousMachine.getDiagnostics());
+        return;
+      }
+
+      const context: ParserContext = {
         file: parseResult,
-      });
+        index,
+        diagnostics: [],
+        scope: path.scope,
+        filePath: options.filePath,
+        fileContents,
+        resolver,
+      };
+      const ast = MachineCallExpression.parse(path.node as any, context);
       if (ast) {
         result.machines.push(
           new MachineParseResult({
             ast,
             fileComments: result.comments,
             scope: path.scope,
+            diagnostics: context.diagnostics,
+            fileContents,
+            filePath: options.filePath,
+            resolver,
           }),
         );
+        result.diagnostics.push(...context.diagnostics);
       }
     },
   });
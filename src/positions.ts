@@ -0,0 +1,209 @@
+import * as t from "@babel/types";
+import type { MachineParseResult } from "./MachineParseResult";
+import { TransitionConfigNode } from "./transitions";
+import { getNodeFilename } from "./utils";
+
+export type MachineElement =
+  | { type: "stateNode"; node: t.Node; path: string[] }
+  | {
+      type: "transition";
+      node: t.Node;
+      /**
+       * The path of the state node the transition is from
+       */
+      path: string[];
+      /**
+       * The event which takes the transition, using the events
+       * XState sends for after, always, onDone and invoke
+       */
+      event: string;
+      index: number;
+    }
+  | { type: "action"; node: t.Node; path: string[]; name: string }
+  | { type: "guard"; node: t.Node; path: string[]; name: string }
+  | {
+      type: "service";
+      node: t.Node;
+      path: string[];
+      src: string;
+      id: string | undefined;
+    }
+  | { type: "delay"; node: t.Node; path: string[]; name: string };
+
+const comparePositions = (
+  a: { line: number; column: number },
+  b: { line: number; column: number },
+) => {
+  return a.line === b.line ? a.column - b.column : a.line - b.line;
+};
+
+/**
+ * Whether the position, with a 1-based line and a 0-based
+ * column like Babel's, is inside the node
+ */
+export const isPositionInNode = (
+  node: t.Node,
+  line: number,
+  column: number,
+) => {
+  if (!node.loc) return false;
+
+  const position = { line, column };
+
+  return (
+    comparePositions(node.loc.start, position) <= 0 &&
+    comparePositions(position, node.loc.end) <= 0
+  );
+};
+
+const getSize = (node: t.Node) => {
+  return (node.end ?? 0) - (node.start ?? 0);
+};
+
+/**
+ * Finds the smallest node containing the position, so
+ * the innermost one wins. On a tie, the later candidate wins.
+ */
+export const findInnermost = <T>(
+  candidates: { node: t.Node; value: T }[],
+  line: number,
+  column: number,
+): T | undefined => {
+  let innermost: { node: t.Node; value: T } | undefined;
+
+  candidates.forEach((candidate) => {
+    if (!isPositionInNode(candidate.node, line, column)) return;
+    if (!innermost || getSize(candidate.node) <= getSize(innermost.node)) {
+      innermost = candidate;
+    }
+  });
+
+  return innermost?.value;
+};
+
+const getCandidates = (machine: MachineParseResult) => {
+  /**
+   * Ordered from the least to the most specific, so a delay
+   * wins over the after transition sharing its key
+   */
+  const candidates: { node: t.Node; value: MachineElement }[] = [];
+
+  const add = (node: t.Node | undefined, value: MachineElement) => {
+    if (node) candidates.push({ node, value });
+  };
+
+  machine.getAllStateNodes().forEach((stateNode) => {
+    const { ast, path } = stateNode;
+    const stateId = machine.getStateNodeId(path) || path.join(".");
+
+    add(ast.node, { type: "stateNode", node: ast.node, path });
+
+    ast.states?.properties.forEach((property) => {
+      add(property.keyNode, {
+        type: "stateNode",
+        node: property.result.node,
+        path: [...path, property.key],
+      });
+    });
+
+    const addTransitions = (
+      event: string,
+      transitions: TransitionConfigNode[] = [],
+      keyNode?: t.Node,
+    ) => {
+      transitions.forEach((transition, index) => {
+        const value: MachineElement = {
+          type: "transition",
+          node: transition.node,
+          path,
+          event,
+          index,
+        };
+        add(transition.node, value);
+        if (index === 0) add(keyNode, value);
+      });
+    };
+
+    ast.on?.properties.forEach((property) => {
+      addTransitions(property.key, property.result, property.keyNode);
+    });
+    ast.after?.properties.forEach((property) => {
+      addTransitions(
+        `xstate.after(${property.key})#${stateId}`,
+        property.result,
+        property.keyNode,
+      );
+    });
+    addTransitions("", ast.always);
+    addTransitions(`done.state.${stateId}`, ast.onDone);
+    ast.invoke?.forEach((invoke, index) => {
+      const src = typeof invoke.src?.value === "string" && invoke.src.value;
+      const id = invoke.id?.value || src || `${stateId}:invocation[${index}]`;
+
+      addTransitions(`done.invoke.${id}`, invoke.onDone);
+      addTransitions(`error.platform.${id}`, invoke.onError);
+    });
+  });
+
+  machine.getAllActions().forEach((action) => {
+    add(action.node, {
+      type: "action",
+      node: action.node,
+      path: action.statePath,
+      name: action.name,
+    });
+  });
+
+  machine.getAllConds().forEach((cond) => {
+    add(cond.node, {
+      type: "guard",
+      node: cond.node,
+      path: cond.statePath,
+      name: cond.name,
+    });
+  });
+
+  machine.getAllServices().forEach((service) => {
+    add(service.srcNode, {
+      type: "service",
+      node: service.srcNode!,
+      path: service.statePath,
+      src: service.src,
+      id: service.id,
+    });
+  });
+
+  const delays = machine.getAllNamedDelays();
+  Object.keys(delays).forEach((name) => {
+    delays[name].forEach((delay) => {
+      add(delay.node, {
+        type: "delay",
+        node: delay.node,
+        path: delay.statePath,
+        name,
+      });
+    });
+  });
+
+  return candidates;
+};
+
+/**
+ * Finds the innermost element of the machine at the position.
+ * Nodes declared in other files are left out.
+ */
+export const getMachineElementAtPosition = (
+  machine: MachineParseResult,
+  line: number,
+  column: number,
+): MachineElement | undefined => {
+  const filename = getNodeFilename(machine.ast.node);
+
+  return findInnermost(
+    getCandidates(machine).filter(
+      (candidate) => getNodeFilename(candidate.node) === filename,
+    ),
+    line,
+    column,
+  );
+};
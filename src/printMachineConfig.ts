@@ -0,0 +1,550 @@
+import { MachineConfig } from "xstate";
+import { INLINE_IMPLEMENTATION_TYPE } from "./constants";
+import { isStaticValuePlaceholder } from "./staticValue";
+
+export type QuoteStyle = "single" | "double";
+
+export interface PrintMachineConfigOptions {
+  /**
+   * @default 'double'
+   */
+  quote?: QuoteStyle;
+  /**
+   * @default true
+   */
+  trailingComma?: boolean;
+  /**
+   * How to order the keys of each state node. 'preserve' keeps
+   * the order of the config, 'canonical' follows the order
+   * used in the XState docs. State names and event names
+   * always keep their order.
+   *
+   * @default 'preserve'
+   */
+  keyOrder?:
+    | "preserve"
+    | "alphabetical"
+    | "canonical"
+    | ((a: string, b: string) => number);
+  /**
+   * @default 2
+   */
+  indent?: number;
+  /**
+   * @default 'machine'
+   */
+  variableName?: string;
+}
+
+const CANONICAL_STATE_NODE_KEY_ORDER = [
+  "id",
+  "key",
+  "type",
+  "initial",
+  "history",
+  "delimiter",
+  "preserveActionOrder",
+  "tsTypes",
+  "schema",
+  "context",
+  "meta",
+  "tags",
+  "data",
+  "entry",
+  "onEntry",
+  "exit",
+  "onExit",
+  "invoke",
+  "always",
+  "after",
+  "on",
+  "onDone",
+  "states",
+];
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const NUMERIC_KEY_REGEX = /^(0|[1-9][0-9]*)$/;
+
+/**
+ * Prints a string literal in the quote style passed
+ */
+export const printString = (value: string, quote: QuoteStyle) => {
+  if (quote === "double") {
+    return JSON.stringify(value);
+  }
+  return `'${JSON.stringify(value)
+    .slice(1, -1)
+    .replace(/\\"/g, '"')
+    .replace(/'/g, "\\'")}'`;
+};
+
+/**
+ * Prints an object key, only quoting it when needed
+ */
+export const printKey = (key: string, quote: QuoteStyle) => {
+  if (IDENTIFIER_REGEX.test(key) || NUMERIC_KEY_REGEX.test(key)) {
+    return key;
+  }
+  return printString(key, quote);
+};
+
+const ACTION_KEYS = ["entry", "exit", "onEntry", "onExit"];
+
+type StubKind = "actions" | "guards" | "services";
+
+const STUB_PREFIXES: Record<StubKind, string> = {
+  actions: "inlineAction",
+  guards: "inlineGuard",
+  services: "inlineService",
+};
+
+const STUB_IMPLEMENTATIONS: Record<StubKind, string> = {
+  actions: "() => {}",
+  guards: "() => false",
+  services: "() => Promise.resolve()",
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord => {
+  return typeof value === "object" && value !== null;
+};
+
+/**
+ * Calls the toJSON the parser gives functions, like inline
+ * implementations, returning undefined when there's none
+ */
+const getFunctionJSON = (value: Function): { json: unknown } | undefined => {
+  const toJSON: unknown = Reflect.get(value, "toJSON");
+
+  return typeof toJSON === "function"
+    ? { json: toJSON.call(value) }
+    : undefined;
+};
+
+const isInlineImplementation = (value: unknown) => {
+  if (typeof value === "function") {
+    const json = getFunctionJSON(value)?.json;
+    return json === undefined || json === INLINE_IMPLEMENTATION_TYPE;
+  }
+  return value === INLINE_IMPLEMENTATION_TYPE;
+};
+
+const getString = (value: unknown): string => {
+  return typeof value === "string" ? value : "";
+};
+
+const getEventType = (event: unknown): string => {
+  if (typeof event === "string") return event;
+  return isRecord(event) ? getString(event.type) : "";
+};
+
+/**
+ * Prints configs one piece at a time, keeping track of the
+ * action creators which need importing and the stubs
+ * created for inline implementations
+ */
+class ConfigPrinter {
+  private options: Required<PrintMachineConfigOptions>;
+  public imports: string[] = ["createMachine"];
+  public stubs: Record<StubKind, string[]> = {
+    actions: [],
+    guards: [],
+    services: [],
+  };
+
+  constructor(options: PrintMachineConfigOptions) {
+    this.options = {
+      quote: "double",
+      trailingComma: true,
+      keyOrder: "preserve",
+      indent: 2,
+      variableName: "machine",
+      ...options,
+    };
+  }
+
+  private pad = (depth: number) => " ".repeat(depth * this.options.indent);
+
+  string = (value: string) => printString(value, this.options.quote);
+
+  private key = (key: string) => printKey(key, this.options.quote);
+
+  private useImport = (name: string) => {
+    if (!this.imports.includes(name)) {
+      this.imports.push(name);
+    }
+  };
+
+  private stub = (kind: StubKind) => {
+    const name = `${STUB_PREFIXES[kind]}${this.stubs[kind].length + 1}`;
+    this.stubs[kind].push(name);
+    return this.string(name);
+  };
+
+  private call = (name: string, args: string[]) => {
+    this.useImport(name);
+    return `${name}(${args.join(", ")})`;
+  };
+
+  object = (entries: [string, string][], depth: number): string => {
+    if (entries.length === 0) return "{}";
+
+    const lines = entries.map(
+      ([key, value]) => `${this.pad(depth + 1)}${this.key(key)}: ${value}`,
+    );
+
+    return `{\n${lines.join(",\n")}${
+      this.options.trailingComma ? "," : ""
+    }\n${this.pad(depth)}}`;
+  };
+
+  array = (items: string[], depth: number): string => {
+    if (items.length === 0) return "[]";
+
+    const inline = `[${items.join(", ")}]`;
+
+    if (!inline.includes("\n") && inline.length <= 60) {
+      return inline;
+    }
+
+    return `[\n${items
+      .map((item) => `${this.pad(depth + 1)}${item}`)
+      .join(",\n")}${this.options.trailingComma ? "," : ""}\n${this.pad(
+      depth,
+    )}]`;
+  };
+
+  /**
+   * Prints a value which the printer has no special
+   * knowledge of, such as meta or context
+   */
+  value = (value: unknown, depth: number): string => {
+    if (typeof value === "function") {
+      const toJSON = getFunctionJSON(value);
+      return toJSON ? this.value(toJSON.json, depth) : "() => {}";
+    }
+    if (typeof value === "string") return this.string(value);
+    if (typeof value === "number" || typeof value === "boolean") {
+      return String(value);
+    }
+    if (value === null) return "null";
+    if (value === undefined) return "undefined";
+    if (isStaticValuePlaceholder(value)) {
+      return value.source || "undefined";
+    }
+    if (Array.isArray(value)) {
+      return this.array(
+        value.map((item) => this.value(item, depth + 1)),
+        depth,
+      );
+    }
+    if (!isRecord(value)) return "undefined";
+
+    return this.object(
+      Object.keys(value)
+        .filter((key) => value[key] !== undefined)
+        .map((key) => [key, this.value(value[key], depth + 1)]),
+      depth,
+    );
+  };
+
+  private cond = (cond: unknown, depth: number): string => {
+    if (isInlineImplementation(cond)) return this.stub("guards");
+    return this.value(cond, depth);
+  };
+
+  private sendAction = (action: UnknownRecord, depth: number): string => {
+    const { to, delay, id } = action;
+    const eventType = getEventType(action.event);
+    const isEventExpression = typeof action.event === "function";
+
+    if (to === "#_parent") {
+      if (eventType === "xstate.update") return this.call("sendUpdate", []);
+      if (isEventExpression) return this.call("escalate", ["{}"]);
+      return this.call("sendParent", [this.string(eventType)]);
+    }
+
+    if (typeof to === "function") {
+      return this.call("respond", [this.string(eventType)]);
+    }
+
+    if (isEventExpression && typeof to === "string") {
+      return this.call("forwardTo", [this.string(to)]);
+    }
+
+    const sendOptions: [string, string][] = [];
+
+    if (typeof to === "string") {
+      sendOptions.push(["to", this.string(to)]);
+    }
+    if (delay !== undefined) {
+      sendOptions.push(["delay", this.value(delay, depth + 1)]);
+    }
+    if (typeof id === "string" && id !== eventType) {
+      sendOptions.push(["id", this.string(id)]);
+    }
+
+    const args = [this.string(eventType)];
+
+    if (sendOptions.length > 0) {
+      args.push(this.object(sendOptions, depth));
+    }
+
+    return this.call("send", args);
+  };
+
+  /**
+   * Prints an action, turning the action objects created
+   * by XState's action creators back into calls
+   */
+  action = (action: unknown, depth: number): string => {
+    if (isInlineImplementation(action)) return this.stub("actions");
+    if (typeof action === "string") return this.string(action);
+    if (!isRecord(action)) return this.value(action, depth);
+
+    const { type } = action;
+
+    switch (type) {
+      case "xstate.assign":
+        return this.call("assign", ["{}"]);
+      case "xstate.send":
+        return this.sendAction(action, depth);
+      case "xstate.raise":
+        return this.call("raise", [this.string(getEventType(action.event))]);
+      case "xstate.log":
+        return this.call("log", []);
+      case "xstate.cancel":
+        return this.call("cancel", [this.value(action.sendId ?? "", depth)]);
+      case "xstate.pure":
+        return this.call("pure", ["() => []"]);
+      case "xstate.start":
+      case "xstate.stop": {
+        const { activity } = action;
+        return this.call(type === "xstate.start" ? "start" : "stop", [
+          this.string(isRecord(activity) ? getString(activity.id) : ""),
+        ]);
+      }
+      case "xstate.choose":
+        return this.call("choose", [
+          this.array(
+            (Array.isArray(action.conds) ? action.conds : []).map(
+              (chooseCondition: unknown) => {
+                if (!isRecord(chooseCondition)) {
+                  return this.value(chooseCondition, depth + 1);
+                }
+
+                const entries: [string, string][] = [];
+                if (chooseCondition.cond !== undefined) {
+                  entries.push([
+                    "cond",
+                    this.cond(chooseCondition.cond, depth + 2),
+                  ]);
+                }
+                if (chooseCondition.actions !== undefined) {
+                  entries.push([
+                    "actions",
+                    this.actions(chooseCondition.actions, depth + 2),
+                  ]);
+                }
+                return this.object(entries, depth + 1);
+              },
+            ),
+            depth,
+          ),
+        ]);
+    }
+
+    if (typeof type === "string" && type.startsWith("done.state.")) {
+      return this.call("done", [this.string(type.slice("done.state.".length))]);
+    }
+
+    return this.value(action, depth);
+  };
+
+  actions = (actions: unknown, depth: number): string => {
+    if (Array.isArray(actions)) {
+      return this.array(
+        actions.map((action) => this.action(action, depth + 1)),
+        depth,
+      );
+    }
+    return this.action(actions, depth);
+  };
+
+  private transition = (transition: unknown, depth: number): string => {
+    if (typeof transition === "string") return this.string(transition);
+    if (!isRecord(transition)) return this.value(transition, depth);
+
+    const entries: [string, string][] = [];
+
+    Object.keys(transition).forEach((key) => {
+      const value = transition[key];
+      if (value === undefined) return;
+
+      if (key === "cond" || key === "guard") {
+        entries.push([key, this.cond(value, depth + 1)]);
+      } else if (key === "actions") {
+        entries.push([key, this.actions(value, depth + 1)]);
+      } else {
+        entries.push([key, this.value(value, depth + 1)]);
+      }
+    });
+
+    return this.object(entries, depth);
+  };
+
+  transitions = (transitions: unknown, depth: number): string => {
+    if (Array.isArray(transitions)) {
+      return this.array(
+        transitions.map((transition) => this.transition(transition, depth + 1)),
+        depth,
+      );
+    }
+    return this.transition(transitions, depth);
+  };
+
+  private transitionsRecord = (record: unknown, depth: number): string => {
+    if (!isRecord(record)) return this.value(record, depth);
+
+    return this.object(
+      Object.keys(record).map((key) => [
+        key,
+        this.transitions(record[key], depth + 1),
+      ]),
+      depth,
+    );
+  };
+
+  private invokeConfig = (invoke: unknown, depth: number): string => {
+    if (!isRecord(invoke)) return this.value(invoke, depth);
+
+    const entries: [string, string][] = [];
+
+    Object.keys(invoke).forEach((key) => {
+      const value = invoke[key];
+      if (value === undefined) return;
+
+      if (key === "src") {
+        entries.push([
+          key,
+          isInlineImplementation(value)
+            ? this.stub("services")
+            : this.value(value, depth + 1),
+        ]);
+      } else if (key === "onDone" || key === "onError") {
+        entries.push([key, this.transitions(value, depth + 1)]);
+      } else {
+        entries.push([key, this.value(value, depth + 1)]);
+      }
+    });
+
+    return this.object(entries, depth);
+  };
+
+  private sortKeys = (keys: string[]): string[] => {
+    const { keyOrder } = this.options;
+
+    if (keyOrder === "preserve") return keys;
+    if (keyOrder === "alphabetical") return [...keys].sort();
+    if (keyOrder === "canonical") {
+      const getIndex = (key: string) => {
+        const index = CANONICAL_STATE_NODE_KEY_ORDER.indexOf(key);
+        return index === -1 ? CANONICAL_STATE_NODE_KEY_ORDER.length : index;
+      };
+      return [...keys].sort((a, b) => getIndex(a) - getIndex(b));
+    }
+    return [...keys].sort(keyOrder);
+  };
+
+  stateNode = (config: unknown, depth: number): string => {
+    if (!isRecord(config)) return this.value(config, depth);
+
+    const entries: [string, string][] = [];
+
+    this.sortKeys(Object.keys(config)).forEach((key) => {
+      const value = config[key];
+      if (value === undefined) return;
+
+      if (ACTION_KEYS.includes(key)) {
+        entries.push([key, this.actions(value, depth + 1)]);
+      } else if (key === "on" || key === "after") {
+        entries.push([key, this.transitionsRecord(value, depth + 1)]);
+      } else if (key === "always" || key === "onDone") {
+        entries.push([key, this.transitions(value, depth + 1)]);
+      } else if (key === "invoke") {
+        entries.push([
+          key,
+          Array.isArray(value)
+            ? this.array(
+                value.map((invoke) => this.invokeConfig(invoke, depth + 2)),
+                depth + 1,
+              )
+            : this.invokeConfig(value, depth + 1),
+        ]);
+      } else if (key === "states" && isRecord(value)) {
+        entries.push([
+          key,
+          this.object(
+            Object.keys(value).map((stateKey) => [
+              stateKey,
+              this.stateNode(value[stateKey], depth + 2),
+            ]),
+            depth + 1,
+          ),
+        ]);
+      } else {
+        entries.push([key, this.value(value, depth + 1)]);
+      }
+    });
+
+    return this.object(entries, depth);
+  };
+
+  machineOptions = (depth: number): string | undefined => {
+    const kinds = (Object.keys(this.stubs) as StubKind[]).filter(
+      (kind) => this.stubs[kind].length > 0,
+    );
+
+    if (kinds.length === 0) return undefined;
+
+    return this.object(
+      kinds.map((kind) => [
+        kind,
+        this.object(
+          this.stubs[kind].map((name) => [name, STUB_IMPLEMENTATIONS[kind]]),
+          depth + 1,
+        ),
+      ]),
+      depth,
+    );
+  };
+
+  machine = (config: MachineConfig<any, any, any>): string => {
+    const printedConfig = this.stateNode(config, 0);
+    const printedOptions = this.machineOptions(0);
+
+    const args = printedOptions
+      ? `${printedConfig}, ${printedOptions}`
+      : printedConfig;
+
+    const importLine = `import { ${this.imports.join(
+      ", ",
+    )} } from ${this.string("xstate")};`;
+
+    return `${importLine}\n\nexport const ${this.options.variableName} = createMachine(${args});\n`;
+  };
+}
+
+/**
+ * Prints a machine config as the TypeScript source of a
+ * createMachine call. Inline implementations, which the
+ * parser can't see inside, are printed as named stubs
+ * in the machine options.
+ */
+export const printMachineConfig = (
+  config: MachineConfig<any, any, any>,
+  options: PrintMachineConfigOptions = {},
+): string => {
+  return new ConfigPrinter(options).machine(config);
+};
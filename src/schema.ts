@@ -1,9 +1,13 @@
+import { SchemaEvents } from "./eventTypes";
 import { AnyNode } from "./scalars";
+import { withStaticValue } from "./staticValue";
 import { unionType } from "./unionType";
 import { objectTypeWithKnownKeys } from "./utils";
 
-export const Schema = objectTypeWithKnownKeys({
-  context: AnyNode,
-  events: AnyNode,
-  services: AnyNode,
-});
+export const Schema = withStaticValue(
+  objectTypeWithKnownKeys({
+    context: AnyNode,
+    events: SchemaEvents,
+    services: AnyNode,
+  }),
+);
@@ -0,0 +1,304 @@
+import * as t from "@babel/types";
+import { QuoteStyle } from "./printMachineConfig";
+
+export interface TextEditPosition {
+  /**
+   * 1-based, like Babel's locations
+   */
+  line: number;
+  /**
+   * 0-based, like Babel's locations
+   */
+  column: number;
+  offset: number;
+}
+
+/**
+ * A replacement of a range of a file's text. An empty
+ * range inserts text, an empty newText deletes it
+ */
+export interface TextEdit {
+  /**
+   * The file the edit applies to. Edits to nodes reached
+   * through imports point at the imported file
+   */
+  filePath?: string;
+  range: {
+    start: TextEditPosition;
+    end: TextEditPosition;
+  };
+  newText: string;
+}
+
+/**
+ * The text of the file a node was found in
+ */
+export interface SourceText {
+  filePath?: string;
+  contents: string;
+}
+
+const getPosition = (contents: string, offset: number): TextEditPosition => {
+  const lines = contents.slice(0, offset).split("\n");
+
+  return {
+    line: lines.length,
+    column: lines[lines.length - 1].length,
+    offset,
+  };
+};
+
+export const createTextEdit = (
+  source: SourceText,
+  start: number,
+  end: number,
+  newText: string,
+): TextEdit => {
+  return {
+    filePath: source.filePath,
+    range: {
+      start: getPosition(source.contents, start),
+      end: getPosition(source.contents, end),
+    },
+    newText,
+  };
+};
+
+/**
+ * Guesses the quote style of a file from the quotes
+ * it uses most
+ */
+export const detectQuoteStyle = (contents: string): QuoteStyle => {
+  const singleQuotes = contents.split("'").length;
+  const doubleQuotes = contents.split('"').length;
+
+  return singleQuotes > doubleQuotes ? "single" : "double";
+};
+
+const getLineStart = (contents: string, offset: number) => {
+  return contents.lastIndexOf("\n", offset - 1) + 1;
+};
+
+const getLineEnd = (contents: string, offset: number) => {
+  const lineEnd = contents.indexOf("\n", offset);
+  return lineEnd === -1 ? contents.length : lineEnd;
+};
+
+const getIndentOfLine = (contents: string, offset: number) => {
+  const lineStart = getLineStart(contents, offset);
+  return contents.slice(lineStart).match(/^[ \t]*/)![0];
+};
+
+const getIndentUnit = (indent: string) => (indent.includes("\t") ? "\t" : "  ");
+
+const isOnlyWhitespace = (text: string) => /^[ \t]*$/.test(text);
+
+const startsItsOwnLine = (contents: string, offset: number) => {
+  return isOnlyWhitespace(
+    contents.slice(getLineStart(contents, offset), offset),
+  );
+};
+
+/**
+ * Where to put text which should follow the offset on the
+ * same line, skipping past a line comment so the
+ * comment stays with the code before it
+ */
+const getInsertionPointAfter = (contents: string, offset: number) => {
+  const lineEnd = getLineEnd(contents, offset);
+  const restOfLine = contents.slice(offset, lineEnd).trim();
+
+  if (restOfLine === "" || restOfLine.startsWith("//")) {
+    return lineEnd;
+  }
+  return offset;
+};
+
+/**
+ * The start of a node, including the comments above it
+ * which sit on their own lines
+ */
+const getStartIncludingComments = (contents: string, node: t.Node) => {
+  let start = node.start!;
+
+  node.leadingComments?.forEach((comment) => {
+    if (comment.start < start && startsItsOwnLine(contents, comment.start)) {
+      start = comment.start;
+    }
+  });
+
+  return start;
+};
+
+export const replaceNode = (
+  source: SourceText,
+  node: t.Node,
+  newText: string,
+): TextEdit => {
+  return createTextEdit(source, node.start!, node.end!, newText);
+};
+
+/**
+ * Inserts text as a new element of an object or array
+ * expression, following the layout and trailing comma
+ * style of the existing elements
+ */
+export const insertElement = (
+  source: SourceText,
+  container: t.ObjectExpression | t.ArrayExpression,
+  text: string,
+  position: "start" | "end",
+): TextEdit[] => {
+  const { contents } = source;
+  const elements = (
+    t.isObjectExpression(container)
+      ? (container.properties as t.Node[])
+      : (container.elements as (t.Node | null)[])
+  ).filter(Boolean) as t.Node[];
+  const containerIndent = getIndentOfLine(contents, container.start!);
+  const padding = t.isObjectExpression(container) ? " " : "";
+
+  if (elements.length === 0) {
+    const innerStart = container.start! + 1;
+    const innerEnd = container.end! - 1;
+    const inner = contents.slice(innerStart, innerEnd);
+
+    if (isOnlyWhitespace(inner)) {
+      return [
+        createTextEdit(
+          source,
+          innerStart,
+          innerEnd,
+          `${padding}${text}${padding}`,
+        ),
+      ];
+    }
+
+    const closingLineStart = getLineStart(contents, innerEnd);
+
+    if (startsItsOwnLine(contents, innerEnd)) {
+      const indent = containerIndent + getIndentUnit(containerIndent);
+      return [
+        createTextEdit(
+          source,
+          closingLineStart,
+          closingLineStart,
+          `${indent}${text},\n`,
+        ),
+      ];
+    }
+
+    return [createTextEdit(source, innerEnd, innerEnd, ` ${text} `)];
+  }
+
+  const first = elements[0];
+  const last = elements[elements.length - 1];
+  const isMultiline = first.loc!.start.line !== container.loc!.start.line;
+
+  if (position === "start") {
+    if (!isMultiline) {
+      return [createTextEdit(source, first.start!, first.start!, `${text}, `)];
+    }
+
+    const lineStart = getLineStart(
+      contents,
+      getStartIncludingComments(contents, first),
+    );
+    const indent = getIndentOfLine(contents, first.start!);
+
+    return [
+      createTextEdit(source, lineStart, lineStart, `${indent}${text},\n`),
+    ];
+  }
+
+  const trailingComma = container.extra?.trailingComma as number | undefined;
+
+  if (!isMultiline) {
+    const offset =
+      typeof trailingComma === "number" ? trailingComma + 1 : last.end!;
+    const newText =
+      typeof trailingComma === "number" ? ` ${text},` : `, ${text}`;
+
+    return [createTextEdit(source, offset, offset, newText)];
+  }
+
+  const indent = getIndentOfLine(contents, last.start!);
+
+  if (typeof trailingComma === "number") {
+    const offset = getInsertionPointAfter(contents, trailingComma + 1);
+    return [createTextEdit(source, offset, offset, `\n${indent}${text},`)];
+  }
+
+  const offset = getInsertionPointAfter(contents, last.end!);
+
+  return [
+    createTextEdit(source, last.end!, last.end!, ","),
+    createTextEdit(source, offset, offset, `\n${indent}${text}`),
+  ];
+};
+
+/**
+ * Removes an element of an object or array expression
+ * alongside its comma and the comments above it
+ */
+export const removeElement = (
+  source: SourceText,
+  element: t.Node,
+): TextEdit => {
+  const { contents } = source;
+
+  let start = getStartIncludingComments(contents, element);
+  let end = element.end!;
+
+  const comma = contents.slice(end).match(/^\s*,/);
+
+  if (comma) {
+    end += comma[0].length;
+  }
+
+  const lineEnd = getLineEnd(contents, end);
+  const restOfLine = contents.slice(end, lineEnd);
+
+  if (startsItsOwnLine(contents, start) && isOnlyWhitespace(restOfLine)) {
+    return createTextEdit(
+      source,
+      getLineStart(contents, start),
+      Math.min(lineEnd + 1, contents.length),
+      "",
+    );
+  }
+
+  if (comma) {
+    end += restOfLine.match(/^[ \t]*/)![0].length;
+  } else {
+    const precedingComma = contents.slice(0, start).match(/,\s*$/);
+    if (precedingComma) {
+      start -= precedingComma[0].length;
+    }
+  }
+
+  return createTextEdit(source, start, end, "");
+};
+
+/**
+ * Applies edits to the text of a single file. Insertions at
+ * the same offset keep the order they were passed in
+ */
+export const applyTextEdits = (contents: string, edits: TextEdit[]) => {
+  return edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => {
+      return (
+        b.edit.range.start.offset - a.edit.range.start.offset ||
+        b.edit.range.end.offset - a.edit.range.end.offset ||
+        b.index - a.index
+      );
+    })
+    .reduce((text, { edit }) => {
+      return (
+        text.slice(0, edit.range.start.offset) +
+        edit.newText +
+        text.slice(edit.range.end.offset)
+      );
+    }, contents);
+};
@@ -0,0 +1,213 @@
+import * as t from "@babel/types";
+import { ActionNode } from "./actions";
+import { TMachineCallExpression } from "./machineCallExpression";
+import { StateNodeReturn } from "./stateNode";
+import { TransitionConfigNode } from "./transitions";
+import { Location } from "./types";
+import { getNodeFilename } from "./utils";
+
+export interface SourceMapEntry {
+  node: t.Node;
+  location: Location;
+  /**
+   * Only present when the path of the file was passed
+   * to the parser, or the node came from another file
+   */
+  filePath?: string;
+}
+
+/**
+ * Maps JSON pointers into the config returned by toConfig,
+ * like /states/idle/on/FETCH/target, to the source they
+ * came from
+ */
+export type ConfigSourceMap = Record<string, SourceMapEntry>;
+
+const escapePointerSegment = (segment: string | number) => {
+  return `${segment}`.replace(/~/g, "~0").replace(/\//g, "~1");
+};
+
+class SourceMapBuilder {
+  sourceMap: ConfigSourceMap = {};
+
+  add = (pointer: string, node: t.Node | undefined) => {
+    if (!node) return;
+
+    const filePath = getNodeFilename(node);
+
+    this.sourceMap[pointer] = {
+      node,
+      location: node.loc || null,
+      ...(filePath && { filePath }),
+    };
+  };
+
+  /**
+   * toConfig collapses arrays with a single item into the
+   * item itself, so single items are added under both
+   * the collapsed pointer and the /0 pointer
+   */
+  addCollapsedArray = <T>(
+    pointer: string,
+    items: T[],
+    addItem: (pointer: string, item: T) => void,
+  ) => {
+    if (items.length === 1) {
+      addItem(pointer, items[0]);
+    }
+    items.forEach((item, index) => {
+      addItem(`${pointer}/${index}`, item);
+    });
+  };
+
+  actions = (pointer: string, actions: ActionNode[]) => {
+    this.addCollapsedArray(pointer, actions, (itemPointer, action) => {
+      this.add(itemPointer, action.node);
+    });
+  };
+
+  /**
+   * The node passed is used for the pointer of the whole
+   * list, when it holds more than one transition
+   */
+  transitions = (
+    pointer: string,
+    node: t.Node | undefined,
+    transitions: TransitionConfigNode[],
+  ) => {
+    this.add(pointer, node);
+
+    this.addCollapsedArray(pointer, transitions, (itemPointer, transition) => {
+      this.add(itemPointer, transition.node);
+
+      if (transition.target) {
+        this.addCollapsedArray(
+          `${itemPointer}/target`,
+          transition.target,
+          (targetPointer, target) => this.add(targetPointer, target.node),
+        );
+      }
+      this.add(`${itemPointer}/cond`, transition.cond?.node);
+      this.add(`${itemPointer}/guard`, transition.guard?.node);
+      if (transition.actions) {
+        this.actions(`${itemPointer}/actions`, transition.actions);
+      }
+    });
+  };
+
+  stateNode = (pointer: string, ast: StateNodeReturn) => {
+    this.add(pointer, ast.node);
+
+    this.add(`${pointer}/id`, ast.id?.node);
+    this.add(`${pointer}/initial`, ast.initial?.node);
+    this.add(`${pointer}/type`, ast.type?.node);
+    this.add(`${pointer}/delimiter`, ast.delimiter?.node);
+    this.add(`${pointer}/preserveActionOrder`, ast.preserveActionOrder?.node);
+    this.add(`${pointer}/tsTypes`, ast.tsTypes?.node);
+    this.add(`${pointer}/schema`, ast.schema?.node);
+    this.add(`${pointer}/context`, ast.context?.node);
+    this.add(`${pointer}/history`, ast.history?.node);
+    this.add(`${pointer}/target`, ast.target?.node);
+    this.add(`${pointer}/data`, ast.data?.node);
+    this.add(`${pointer}/meta`, ast.meta?.node);
+    this.add(`${pointer}/meta/description`, ast.meta?.description?.node);
+
+    if (ast.tags) {
+      this.addCollapsedArray(`${pointer}/tags`, ast.tags, (tagPointer, tag) =>
+        this.add(tagPointer, tag.node),
+      );
+    }
+
+    (["entry", "exit", "onEntry", "onExit"] as const).forEach((key) => {
+      const actions = ast[key];
+      if (actions) {
+        this.actions(`${pointer}/${key}`, actions);
+      }
+    });
+
+    (["on", "after"] as const).forEach((key) => {
+      const record = ast[key];
+      if (!record) return;
+
+      this.add(`${pointer}/${key}`, record.node);
+
+      record.properties.forEach((property) => {
+        this.transitions(
+          `${pointer}/${key}/${escapePointerSegment(property.key)}`,
+          property.keyNode,
+          property.result,
+        );
+      });
+    });
+
+    if (ast.always) {
+      this.transitions(`${pointer}/always`, ast.always[0]?.node, ast.always);
+    }
+    if (ast.onDone) {
+      this.transitions(`${pointer}/onDone`, ast.onDone[0]?.node, ast.onDone);
+    }
+
+    if (ast.invoke) {
+      this.addCollapsedArray(
+        `${pointer}/invoke`,
+        ast.invoke,
+        (invokePointer, invoke) => {
+          this.add(invokePointer, invoke.node);
+          this.add(`${invokePointer}/src`, invoke.src?.node);
+          this.add(`${invokePointer}/id`, invoke.id?.node);
+          this.add(`${invokePointer}/systemId`, invoke.systemId?.node);
+          this.add(`${invokePointer}/data`, invoke.data?.node);
+          this.add(`${invokePointer}/input`, invoke.input?.node);
+          this.add(`${invokePointer}/autoForward`, invoke.autoForward?.node);
+          this.add(`${invokePointer}/forward`, invoke.forward?.node);
+          if (invoke.onDone) {
+            this.transitions(
+              `${invokePointer}/onDone`,
+              invoke.onDone[0]?.node,
+              invoke.onDone,
+            );
+          }
+          if (invoke.onError) {
+            this.transitions(
+              `${invokePointer}/onError`,
+              invoke.onError[0]?.node,
+              invoke.onError,
+            );
+          }
+        },
+      );
+    }
+
+    if (ast.states) {
+      this.add(`${pointer}/states`, ast.states.node);
+
+      ast.states.properties.forEach((property) => {
+        this.stateNode(
+          `${pointer}/states/${escapePointerSegment(property.key)}`,
+          property.result,
+        );
+      });
+    }
+  };
+}
+
+/**
+ * Builds the source map of the config toMachineConfig
+ * returns. Nodes which came from spreads or variables
+ * point to where they were declared.
+ */
+export const getConfigSourceMap = (
+  result: TMachineCallExpression,
+): ConfigSourceMap => {
+  const builder = new SourceMapBuilder();
+
+  if (result?.definition) {
+    builder.stateNode("", result.definition);
+  }
+
+  if (!result?.definition?.context && result?.model?.context) {
+    builder.add("/context", result.model.context.node);
+  }
+
+  return builder.sourceMap;
+};
@@ -4,8 +4,9 @@ import { Context } from "./context";
 import { History } from "./history";
 import { Invoke } from "./invoke";
 import { StateMeta } from "./meta";
-import { AnyNode, BooleanLiteral, StringLiteral } from "./scalars";
+import { BooleanLiteral, StringLiteral } from "./scalars";
 import { Schema } from "./schema";
+import { StaticValueParser } from "./staticValue";
 import { MaybeTransitionArray } from "./transitions";
 import { TsTypes } from "./tsTypes";
 import { AnyParser } from "./types";
@@ -46,13 +47,17 @@ export type StateNodeReturn = {
   on?: GetParserResult<typeof On>;
   after?: GetParserResult<typeof After>;
   history?: GetParserResult<typeof History>;
+  /**
+   * The default target of history state nodes
+   */
+  target?: GetParserResult<typeof StringLiteral>;
   tags?: GetParserResult<typeof Tags>;
   states?: GetParserResult<AnyParser<ObjectOfReturn<StateNodeReturn>>>;
   node: t.Node;
   meta?: GetParserResult<typeof StateMeta>;
   tsTypes?: GetParserResult<typeof TsTypes>;
   context?: GetParserResult<typeof Context>;
-  data?: GetParserResult<typeof AnyNode>;
+  data?: GetParserResult<typeof StaticValueParser>;
   schema?: GetParserResult<typeof Schema>;
   preserveActionOrder?: GetParserResult<typeof BooleanLiteral>;
 };
@@ -65,6 +70,7 @@ const StateNodeObject: AnyParser<StateNodeReturn> = objectTypeWithKnownKeys(
     tsTypes: TsTypes,
     schema: Schema,
     history: History,
+    target: StringLiteral,
     delimiter: StringLiteral,
     entry: MaybeArrayOfActions,
     exit: MaybeArrayOfActions,
@@ -79,7 +85,7 @@ const StateNodeObject: AnyParser<StateNodeReturn> = objectTypeWithKnownKeys(
     states: objectOf(StateNodeObject),
     meta: StateMeta,
     context: Context,
-    data: AnyNode,
+    data: StaticValueParser,
     preserveActionOrder: BooleanLiteral,
   }),
 );
@@ -0,0 +1,234 @@
+import * as t from "@babel/types";
+import { createParser } from "./createParser";
+import { describeNode, reportDiagnostic } from "./diagnostics";
+import { maybeIdentifierTo } from "./identifiers";
+import { maybeTsAsExpression } from "./tsAsExpression";
+import { AnyParser, ParserContext } from "./types";
+import { unionType } from "./unionType";
+import {
+  getPropertiesOfObjectExpression,
+  isFunctionOrArrowFunctionExpression,
+} from "./utils";
+
+export type StaticValuePlaceholderType =
+  | "function"
+  | "call"
+  | "new"
+  | "identifier"
+  | "expression";
+
+/**
+ * Stands in for a value which can't be evaluated without
+ * running the code, like a function or new Date()
+ */
+export interface StaticValuePlaceholder {
+  $placeholder: StaticValuePlaceholderType;
+  /**
+   * The source text of the expression
+   */
+  source: string;
+}
+
+export type StaticValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | StaticValuePlaceholder
+  | StaticValue[]
+  | { [key: string]: StaticValue };
+
+export interface StaticValueNode {
+  node: t.Node;
+  value: StaticValue;
+}
+
+export const isStaticValuePlaceholder = (
+  value: unknown,
+): value is StaticValuePlaceholder => {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as any).$placeholder === "string" &&
+    typeof (value as any).source === "string"
+  );
+};
+
+const getSourceText = (node: t.Node, context: ParserContext) => {
+  if (
+    context.fileContents === undefined ||
+    typeof node.start !== "number" ||
+    typeof node.end !== "number"
+  ) {
+    return "";
+  }
+  return context.fileContents.slice(node.start, node.end);
+};
+
+const getPlaceholderType = (node: t.Node): StaticValuePlaceholderType => {
+  if (isFunctionOrArrowFunctionExpression(node) || t.isObjectMethod(node)) {
+    return "function";
+  }
+  if (t.isCallExpression(node)) return "call";
+  if (t.isNewExpression(node)) return "new";
+  if (t.isIdentifier(node) || t.isMemberExpression(node)) return "identifier";
+  return "expression";
+};
+
+const Placeholder = createParser({
+  babelMatcher: t.isNode,
+  parseNode: (node, context): StaticValueNode => ({
+    node,
+    value: {
+      $placeholder: getPlaceholderType(node),
+      source: getSourceText(node, context),
+    },
+  }),
+});
+
+const isNegativeNumber = (node: t.Node): node is t.UnaryExpression =>
+  t.isUnaryExpression(node) &&
+  node.operator === "-" &&
+  t.isNumericLiteral(node.argument);
+
+const isUndefined = (node: t.Node): node is t.Identifier =>
+  t.isIdentifier(node) && node.name === "undefined";
+
+const Primitive = createParser({
+  babelMatcher: (node: any): node is t.Node =>
+    t.isStringLiteral(node) ||
+    t.isNumericLiteral(node) ||
+    t.isBooleanLiteral(node) ||
+    t.isNullLiteral(node) ||
+    isNegativeNumber(node) ||
+    isUndefined(node) ||
+    (t.isTemplateLiteral(node) && node.expressions.length === 0),
+  parseNode: (node): StaticValueNode => {
+    if (t.isStringLiteral(node) || t.isNumericLiteral(node)) {
+      return { node, value: node.value };
+    }
+    if (t.isBooleanLiteral(node)) return { node, value: node.value };
+    if (t.isTemplateLiteral(node)) {
+      return { node, value: node.quasis[0]?.value.cooked ?? "" };
+    }
+    if (isNegativeNumber(node)) {
+      return { node, value: -(node.argument as t.NumericLiteral).value };
+    }
+    if (isUndefined(node)) return { node, value: undefined };
+    return { node, value: null };
+  },
+});
+
+const ArrayValue = createParser({
+  babelMatcher: t.isArrayExpression,
+  parseNode: (node, context): StaticValueNode => {
+    const value: StaticValue[] = [];
+
+    node.elements.forEach((element) => {
+      if (!element) {
+        value.push(null);
+      } else if (t.isSpreadElement(element)) {
+        const spread = StaticValueParser.parse(element.argument, context);
+        if (Array.isArray(spread?.value)) {
+          value.push(...spread!.value);
+        } else {
+          value.push(Placeholder.parse(element, context)!.value);
+        }
+      } else {
+        value.push(StaticValueParser.parse(element, context)?.value);
+      }
+    });
+
+    return { node, value };
+  },
+});
+
+const ObjectValue = createParser({
+  babelMatcher: t.isObjectExpression,
+  parseNode: (node, context): StaticValueNode => {
+    const value: { [key: string]: StaticValue } = {};
+
+    getPropertiesOfObjectExpression(node, context).forEach((property) => {
+      const valueNode = t.isObjectProperty(property.node)
+        ? property.node.value
+        : property.node;
+
+      value[property.key] = StaticValueParser.parse(
+        valueNode,
+        property.context,
+      )?.value;
+    });
+
+    return { node, value };
+  },
+});
+
+/**
+ * Adds the static value of a node to the result of a parser,
+ * for keys like meta where some properties are also parsed
+ * on their own. Diagnostics are only reported once.
+ */
+export const withStaticValue = <Result extends { node: t.Node }>(
+  parser: AnyParser<Result>,
+): AnyParser<Result & { value: StaticValue }> => ({
+  matches: parser.matches,
+  parse: (node, context) => {
+    const result = parser.parse(node, context);
+    if (!result) return undefined;
+
+    return {
+      ...result,
+      value: StaticValueParser.parse(node, { ...context, diagnostics: [] })
+        ?.value,
+    };
+  },
+});
+
+/**
+ * Stops evaluating an object or array which contains
+ * itself, like var a = { b: a }, so that the reference
+ * inside it becomes a placeholder
+ */
+const withoutCycles = (
+  parser: AnyParser<StaticValueNode>,
+): AnyParser<StaticValueNode> => {
+  const evaluating: t.Node[] = [];
+
+  return {
+    matches: parser.matches,
+    parse: (node, context) => {
+      if (evaluating.includes(node)) {
+        reportDiagnostic(context, {
+          code: "circular-reference",
+          message: `Could not evaluate ${describeNode(
+            node,
+          )}, because it references itself`,
+          node,
+        });
+        return undefined;
+      }
+
+      evaluating.push(node);
+      try {
+        return parser.parse(node, context);
+      } finally {
+        evaluating.pop();
+      }
+    },
+  };
+};
+
+/**
+ * Evaluates literals, objects and arrays, following
+ * identifiers to their declarations. Anything else
+ * becomes a placeholder holding its source text
+ */
+export const StaticValueParser: AnyParser<StaticValueNode> = unionType([
+  maybeTsAsExpression(
+    maybeIdentifierTo(
+      withoutCycles(unionType([Primitive, ArrayValue, ObjectValue])),
+    ),
+  ),
+  Placeholder,
+]);
@@ -0,0 +1,235 @@
+import {
+  getDiagramTransitions,
+  getTransitionLabel,
+} from "./diagramTransitions";
+import {
+  MachineParseResult,
+  MachineParseResultStateNode,
+} from "./MachineParseResult";
+import { getPathKey } from "./utils";
+
+export interface ToDotOptions {
+  /**
+   * Leaves the actions out of the transition labels
+   */
+  hideActions?: boolean;
+  /**
+   * State nodes deeper than this are drawn as their ancestor at
+   * this depth, where the children of the root are at depth 1
+   */
+  collapseDepth?: number;
+  /**
+   * Fills state nodes with the color of their first tag
+   * which has one, for instance { loading: "lightblue" }
+   */
+  tagColors?: Record<string, string>;
+}
+
+const INDENT = "  ";
+
+const quote = (value: string) => {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+};
+
+const printAttributes = (attributes: Record<string, string | undefined>) => {
+  const printed = Object.keys(attributes)
+    .filter((key) => attributes[key] !== undefined)
+    .map((key) => `${key}=${quote(attributes[key]!)}`);
+
+  return printed.length ? ` [${printed.join(", ")}]` : "";
+};
+
+/**
+ * Prints the machine as a Graphviz digraph. Compound state nodes
+ * become clusters holding a point, which starts the arrow to
+ * their initial state and which edges to the state node use.
+ * Transitions of the root state node start from its point
+ */
+export const toDot = (
+  machine: MachineParseResult,
+  options: ToDotOptions = {},
+): string => {
+  const { collapseDepth = Infinity, tagColors = {} } = options;
+  const lines: string[] = [];
+
+  const getNodeId = (path: string[]) =>
+    machine.getStateNodeId(path) || path.join(".");
+
+  const transitions = getDiagramTransitions(machine);
+  const hasRootTransitions = transitions.some(
+    (transition) => transition.fromPath.length === 0,
+  );
+
+  /**
+   * The root state node is drawn as the diagram itself,
+   * never as a cluster
+   */
+  const isDrawnAsCluster = (stateNode: MachineParseResultStateNode) =>
+    stateNode.path.length > 0 &&
+    stateNode.path.length < collapseDepth &&
+    machine.getChildStateNodes(stateNode.path).length > 0;
+
+  /**
+   * The path of the state node the path is drawn
+   * as, once collapsed
+   */
+  const getDrawnPath = (path: string[]) => path.slice(0, collapseDepth);
+
+  const getFillColor = (stateNode: MachineParseResultStateNode) => {
+    const tag = stateNode.ast.tags?.find((tag) => tagColors[tag.value]);
+    return tag && tagColors[tag.value];
+  };
+
+  const printStateNode = (
+    stateNode: MachineParseResultStateNode,
+    indent: string,
+  ) => {
+    const key = stateNode.path[stateNode.path.length - 1];
+    const nodeId = getNodeId(stateNode.path);
+    const fillColor = getFillColor(stateNode);
+
+    if (isDrawnAsCluster(stateNode)) {
+      lines.push(`${indent}subgraph ${quote(`cluster_${nodeId}`)} {`);
+      lines.push(`${indent}${INDENT}label=${quote(key)};`);
+      lines.push(
+        `${indent}${INDENT}style=${quote(
+          fillColor ? "rounded,filled" : "rounded",
+        )};`,
+      );
+      if (fillColor) {
+        lines.push(`${indent}${INDENT}fillcolor=${quote(fillColor)};`);
+      }
+      printChildren(stateNode, indent + INDENT);
+      lines.push(`${indent}}`);
+      return;
+    }
+
+    const type = stateNode.ast.type?.value;
+
+    if (type === "history") {
+      const isDeep = stateNode.ast.history?.value === "deep";
+
+      lines.push(
+        `${indent}${quote(nodeId)}${printAttributes({
+          label: isDeep ? "H*" : "H",
+          shape: "circle",
+        })};`,
+      );
+      return;
+    }
+
+    lines.push(
+      `${indent}${quote(nodeId)}${printAttributes({
+        label: key,
+        peripheries: type === "final" ? "2" : undefined,
+        style: fillColor ? "rounded,filled" : undefined,
+        fillcolor: fillColor,
+      })};`,
+    );
+  };
+
+  /**
+   * Prints the point standing in for the state node, its
+   * children and the arrow to its initial state
+   */
+  const printChildren = (
+    stateNode: MachineParseResultStateNode,
+    indent: string,
+  ) => {
+    const anchorId = getNodeId(stateNode.path);
+    const initial = stateNode.ast.initial?.value;
+    const initialChild =
+      initial !== undefined &&
+      machine.getStateNodeByPath([...stateNode.path, initial]);
+
+    lines.push(
+      `${indent}${quote(anchorId)}${printAttributes({
+        shape: "point",
+        style:
+          initialChild || (stateNode.path.length === 0 && hasRootTransitions)
+            ? undefined
+            : "invis",
+      })};`,
+    );
+
+    machine
+      .getChildStateNodes(stateNode.path)
+      .forEach((child) => printStateNode(child, indent));
+
+    if (initialChild) {
+      lines.push(
+        `${indent}${quote(anchorId)} -> ${quote(
+          getNodeId(initialChild.path),
+        )}${printAttributes({
+          lhead: isDrawnAsCluster(initialChild)
+            ? `cluster_${getNodeId(initialChild.path)}`
+            : undefined,
+        })};`,
+      );
+    }
+  };
+
+  const printEdges = () => {
+    const printedEdges: Record<string, boolean> = {};
+
+    transitions.forEach((transition) => {
+      const fromPath = getDrawnPath(transition.fromPath);
+      const label = getTransitionLabel(transition, {
+        hideActions: options.hideActions,
+      });
+
+      transition.targetPaths.forEach((targetPath) => {
+        const toPath = getDrawnPath(targetPath);
+
+        /**
+         * Transitions between the descendants of a
+         * collapsed state node are hidden inside it
+         */
+        if (
+          getPathKey(fromPath) === getPathKey(toPath) &&
+          getPathKey(transition.fromPath) !== getPathKey(targetPath) &&
+          fromPath.length < transition.fromPath.length
+        ) {
+          return;
+        }
+
+        const from = machine.getStateNodeByPath(fromPath);
+        const to = machine.getStateNodeByPath(toPath);
+        if (!from || !to) return;
+
+        const edge = `${quote(getNodeId(fromPath))} -> ${quote(
+          getNodeId(toPath),
+        )}${printAttributes({
+          label,
+          ltail: isDrawnAsCluster(from)
+            ? `cluster_${getNodeId(fromPath)}`
+            : undefined,
+          lhead: isDrawnAsCluster(to)
+            ? `cluster_${getNodeId(toPath)}`
+            : undefined,
+        })};`;
+
+        if (printedEdges[edge]) return;
+        printedEdges[edge] = true;
+
+        lines.push(`${INDENT}${edge}`);
+      });
+    });
+  };
+
+  lines.push(`digraph ${quote(getNodeId([]))} {`);
+  lines.push(`${INDENT}compound=true;`);
+  lines.push(`${INDENT}rankdir=LR;`);
+  lines.push(`${INDENT}node [shape="box", style="rounded"];`);
+
+  const root = machine.getStateNodeByPath([]);
+
+  if (root) {
+    printChildren(root, INDENT);
+    printEdges();
+  }
+
+  lines.push("}");
+
+  return `${lines.join("\n")}\n`;
+};
@@ -1,20 +1,46 @@
 import {
   Actions,
+  Condition,
+  InvokeConfig,
   MachineConfig,
-  StateNodeConfig,
+  TransitionConfig,
   TransitionConfigOrTarget,
 } from "xstate";
 import { MaybeArrayOfActions } from "./actions";
 import { INLINE_IMPLEMENTATION_TYPE } from "./constants";
 import { TMachineCallExpression } from "./machineCallExpression";
 import { StateNodeReturn } from "./stateNode";
+import { StaticValue } from "./staticValue";
 import { MaybeTransitionArray } from "./transitions";
 import { GetParserResult } from "./utils";
 
-const parseStateNode = (
-  astResult: StateNodeReturn,
-): StateNodeConfig<any, any, any> => {
-  const config: MachineConfig<any, any, any> = {};
+/**
+ * The v4 config types, widened with the static values
+ * and the typegen and v5 keys toConfig emits
+ */
+type ParsedInvokeConfig = Omit<InvokeConfig<any, any>, "data"> & {
+  systemId?: string;
+  input?: StaticValue;
+  data?: StaticValue;
+};
+
+type ParsedStateNodeConfig = Omit<
+  MachineConfig<any, any, any>,
+  "schema" | "data" | "invoke" | "states"
+> & {
+  tsTypes?: StaticValue;
+  schema?: StaticValue;
+  data?: StaticValue;
+  invoke?: ParsedInvokeConfig | ParsedInvokeConfig[];
+  states?: Record<string, ParsedStateNodeConfig>;
+  /**
+   * The default target of history state nodes
+   */
+  target?: string;
+};
+
+const parseStateNode = (astResult: StateNodeReturn): ParsedStateNodeConfig => {
+  const config: ParsedStateNodeConfig = {};
 
   if (astResult?.id) {
     config.id = astResult.id.value;
@@ -28,6 +54,31 @@ const parseStateNode = (
     config.type = astResult.type.value as any;
   }
 
+  if (astResult.delimiter) {
+    config.delimiter = astResult.delimiter.value;
+  }
+
+  if (astResult.preserveActionOrder) {
+    config.preserveActionOrder = astResult.preserveActionOrder.value;
+  }
+
+  if (astResult.tsTypes) {
+    config.tsTypes = astResult.tsTypes.value;
+  }
+
+  if (astResult.schema) {
+    config.schema = astResult.schema.value;
+  }
+
+  if (astResult.context) {
+    config.context = astResult.context.value;
+  }
+
+  if (astResult.tags) {
+    const tags = astResult.tags.map((tag) => tag.value);
+    config.tags = tags.length === 1 ? tags[0] : tags;
+  }
+
   if (astResult.entry) {
     config.entry = getActionConfig(astResult.entry);
   }
@@ -63,6 +114,10 @@ const parseStateNode = (
     config.history = astResult.history.value;
   }
 
+  if (astResult.target) {
+    config.target = astResult.target.value;
+  }
+
   if (astResult.states) {
     const states: typeof config.states = {};
 
@@ -77,22 +132,29 @@ const parseStateNode = (
     config.always = getTransitions(astResult.always);
   }
 
-  if (astResult.meta?.description) {
+  if (astResult.meta) {
     config.meta = {
-      description: astResult.meta.description.value,
+      ...(astResult.meta.value as object),
+      ...(astResult.meta.description && {
+        description: astResult.meta.description.value,
+      }),
     };
   }
 
+  if (astResult.data) {
+    config.data = astResult.data.value;
+  }
+
   if (astResult.onDone) {
     // @ts-ignore
     config.onDone = getTransitions(astResult.onDone);
   }
 
   if (astResult.invoke) {
-    const invokes: typeof config.invoke = [];
+    const invokes: ParsedInvokeConfig[] = [];
 
     astResult.invoke.forEach((invoke) => {
-      const toPush: typeof invokes[number] = {
+      const toPush: ParsedInvokeConfig = {
         src: INLINE_IMPLEMENTATION_TYPE,
       };
       if (invoke.src) {
@@ -103,6 +165,18 @@ const parseStateNode = (
         toPush.id = invoke.id.value;
       }
 
+      if (invoke.systemId) {
+        toPush.systemId = invoke.systemId.value;
+      }
+
+      if (invoke.data) {
+        toPush.data = invoke.data.value;
+      }
+
+      if (invoke.input) {
+        toPush.input = invoke.input.value;
+      }
+
       if (invoke.autoForward) {
         toPush.autoForward = invoke.autoForward.value;
       }
@@ -138,7 +212,22 @@ export const toMachineConfig = (
   result: TMachineCallExpression,
 ): MachineConfig<any, any, any> | undefined => {
   if (!result?.definition) return undefined;
-  return parseStateNode(result?.definition);
+
+  const config = parseStateNode(result.definition);
+
+  /**
+   * model.createMachine uses the initial context of
+   * the model when the config doesn't declare one
+   */
+  if (!("context" in config) && result.model?.context) {
+    config.context = result.model.context.value;
+  }
+
+  /**
+   * Static values stand in for the mappers and schemas
+   * XState's types expect
+   */
+  return config as MachineConfig<any, any, any>;
 };
 
 export const getActionConfig = (
@@ -163,7 +252,9 @@ export const getTransitions = (
   const transitions: TransitionConfigOrTarget<any, any> = [];
 
   astTransitions?.forEach((transition) => {
-    const toPush: TransitionConfigOrTarget<any, any> = {};
+    const toPush: TransitionConfig<any, any> & {
+      guard?: Condition<any, any>;
+    } = {};
     if (transition?.target && transition?.target?.length > 0) {
       if (transition.target.length === 1) {
         toPush.target = transition?.target[0].value;
@@ -174,6 +265,9 @@ export const getTransitions = (
     if (transition?.cond) {
       toPush.cond = transition?.cond.cond;
     }
+    if (transition?.guard) {
+      toPush.guard = transition.guard.cond;
+    }
     if (transition?.actions) {
       toPush.actions = getActionConfig(transition.actions);
     }
@@ -0,0 +1,113 @@
+import {
+  DiagramTransition,
+  getDiagramStateIds,
+  getDiagramTransitions,
+  getStateNodeLabel,
+  getTransitionLabel,
+  isBetweenSiblings,
+} from "./diagramTransitions";
+import {
+  MachineParseResult,
+  MachineParseResultStateNode,
+} from "./MachineParseResult";
+import { RecordOfArrays } from "./RecordOfArrays";
+import { getPathKey } from "./utils";
+
+const INDENT = "  ";
+
+const escapeLabel = (label: string) => {
+  return label.replace(/\n/g, " ").replace(/"/g, "#quot;");
+};
+
+/**
+ * Prints the machine as a Mermaid stateDiagram-v2
+ */
+export const toMermaid = (machine: MachineParseResult): string => {
+  const lines = ["stateDiagram-v2"];
+  const crossingLines: string[] = [];
+  const ids = getDiagramStateIds(machine.getAllStateNodes());
+
+  const getId = (path: string[]) => ids[getPathKey(path)];
+
+  const transitionsByPath = new RecordOfArrays<DiagramTransition>();
+  getDiagramTransitions(machine).forEach((transition) => {
+    transitionsByPath.add(getPathKey(transition.fromPath), transition);
+  });
+  const transitions = transitionsByPath.toObject();
+
+  const printStateNode = (
+    stateNode: MachineParseResultStateNode,
+    indent: string,
+  ) => {
+    const key = getStateNodeLabel(machine, stateNode.path);
+    const id = getId(stateNode.path);
+    const children = machine.getChildStateNodes(stateNode.path);
+
+    if (id !== key) {
+      lines.push(`${indent}state "${escapeLabel(key)}" as ${id}`);
+    }
+
+    if (children.length) {
+      lines.push(`${indent}state ${id} {`);
+      printChildren(stateNode, children, indent + INDENT);
+      lines.push(`${indent}}`);
+    } else if (id === key) {
+      lines.push(`${indent}${id}`);
+    }
+
+    transitions[getPathKey(stateNode.path)]?.forEach((transition) => {
+      transition.targetPaths.forEach((targetPath) => {
+        const line = `${id} --> ${getId(targetPath)} : ${escapeLabel(
+          getTransitionLabel(transition),
+        )}`;
+
+        if (isBetweenSiblings(stateNode.path, targetPath)) {
+          lines.push(`${indent}${line}`);
+        } else {
+          crossingLines.push(`${INDENT}${line}`);
+        }
+      });
+    });
+
+    if (stateNode.ast.type?.value === "final") {
+      lines.push(`${indent}${id} --> [*]`);
+    }
+  };
+
+  const printChildren = (
+    stateNode: MachineParseResultStateNode,
+    children: MachineParseResultStateNode[],
+    indent: string,
+  ) => {
+    if (stateNode.ast.type?.value === "parallel") {
+      children.forEach((child, index) => {
+        if (index > 0) lines.push(`${indent}--`);
+        printStateNode(child, indent);
+      });
+      return;
+    }
+
+    const initial = stateNode.ast.initial?.value;
+    if (initial !== undefined && getId([...stateNode.path, initial])) {
+      lines.push(`${indent}[*] --> ${getId([...stateNode.path, initial])}`);
+    }
+
+    children.forEach((child) => printStateNode(child, indent));
+  };
+
+  const root = machine.getStateNodeByPath([]);
+
+  /**
+   * The root state node is only drawn when it has transitions,
+   * as a state holding the others which they start from
+   */
+  if (root && transitions[getPathKey([])]) {
+    printStateNode(root, INDENT);
+  } else if (root) {
+    printChildren(root, machine.getChildStateNodes([]), INDENT);
+  }
+
+  lines.push(...crossingLines);
+
+  return `${lines.join("\n")}\n`;
+};
@@ -0,0 +1,161 @@
+import {
+  DiagramTransition,
+  getDiagramStateIds,
+  getDiagramTransitions,
+  getStateNodeLabel,
+  getTransitionLabel,
+  isBetweenSiblings,
+} from "./diagramTransitions";
+import {
+  MachineParseResult,
+  MachineParseResultStateNode,
+} from "./MachineParseResult";
+import { RecordOfArrays } from "./RecordOfArrays";
+import { getPathKey } from "./utils";
+
+const INDENT = "  ";
+
+const escapeLabel = (label: string) => {
+  return label.replace(/\n/g, " ");
+};
+
+/**
+ * Prints the machine as a PlantUML state diagram. History state
+ * nodes become the [H] and [H*] pseudo-states of their parent,
+ * and meta.description becomes a note
+ */
+export const toPlantUML = (machine: MachineParseResult): string => {
+  const lines = ["@startuml"];
+  const crossingLines: string[] = [];
+  const ids = getDiagramStateIds(machine.getAllStateNodes());
+
+  const transitionsByPath = new RecordOfArrays<DiagramTransition>();
+  getDiagramTransitions(machine).forEach((transition) => {
+    transitionsByPath.add(getPathKey(transition.fromPath), transition);
+  });
+  const transitions = transitionsByPath.toObject();
+
+  /**
+   * Refers to history state nodes through their parent,
+   * like parent[H*]
+   */
+  const getReference = (path: string[]) => {
+    const stateNode = machine.getStateNodeByPath(path);
+
+    if (stateNode?.ast.type?.value === "history") {
+      const parentPath = path.slice(0, -1);
+      const pseudoState =
+        stateNode.ast.history?.value === "deep" ? "[H*]" : "[H]";
+
+      return `${
+        parentPath.length ? ids[getPathKey(parentPath)] : ""
+      }${pseudoState}`;
+    }
+
+    return ids[getPathKey(path)];
+  };
+
+  const printNote = (id: string, description: string, indent: string) => {
+    const noteLines = description.split("\n");
+
+    if (noteLines.length === 1) {
+      lines.push(`${indent}note right of ${id} : ${description}`);
+      return;
+    }
+
+    lines.push(`${indent}note right of ${id}`);
+    noteLines.forEach((line) => lines.push(`${indent}${INDENT}${line}`));
+    lines.push(`${indent}end note`);
+  };
+
+  /**
+   * History state nodes aren't drawn as states of their own
+   */
+  const getDrawnChildren = (path: string[]) => {
+    return machine
+      .getChildStateNodes(path)
+      .filter((child) => child.ast.type?.value !== "history");
+  };
+
+  const printStateNode = (
+    stateNode: MachineParseResultStateNode,
+    indent: string,
+  ) => {
+    const key = getStateNodeLabel(machine, stateNode.path);
+    const id = ids[getPathKey(stateNode.path)];
+    const children = getDrawnChildren(stateNode.path);
+    const declaration = id === key ? id : `"${key}" as ${id}`;
+
+    if (children.length) {
+      lines.push(`${indent}state ${declaration} {`);
+      printChildren(stateNode, children, indent + INDENT);
+      lines.push(`${indent}}`);
+    } else {
+      lines.push(`${indent}state ${declaration}`);
+    }
+
+    const description = stateNode.ast.meta?.description?.value;
+    if (description) printNote(id, description, indent);
+
+    transitions[getPathKey(stateNode.path)]?.forEach((transition) => {
+      transition.targetPaths.forEach((targetPath) => {
+        const line = `${id} --> ${getReference(targetPath)} : ${escapeLabel(
+          getTransitionLabel(transition),
+        )}`;
+
+        if (isBetweenSiblings(stateNode.path, targetPath)) {
+          lines.push(`${indent}${line}`);
+        } else {
+          crossingLines.push(line);
+        }
+      });
+    });
+
+    if (stateNode.ast.type?.value === "final") {
+      lines.push(`${indent}${id} --> [*]`);
+    }
+  };
+
+  const printChildren = (
+    stateNode: MachineParseResultStateNode,
+    children: MachineParseResultStateNode[],
+    indent: string,
+  ) => {
+    if (stateNode.ast.type?.value === "parallel") {
+      children.forEach((child, index) => {
+        if (index > 0) lines.push(`${indent}--`);
+        printStateNode(child, indent);
+      });
+      return;
+    }
+
+    const initial = stateNode.ast.initial?.value;
+    if (
+      initial !== undefined &&
+      ids[getPathKey([...stateNode.path, initial])]
+    ) {
+      lines.push(
+        `${indent}[*] --> ${getReference([...stateNode.path, initial])}`,
+      );
+    }
+
+    children.forEach((child) => printStateNode(child, indent));
+  };
+
+  const root = machine.getStateNodeByPath([]);
+
+  /**
+   * The root state node is only drawn when it has transitions,
+   * as a state holding the others which they start from
+   */
+  if (root && transitions[getPathKey([])]) {
+    printStateNode(root, "");
+  } else if (root) {
+    printChildren(root, getDrawnChildren([]), "");
+  }
+
+  lines.push(...crossingLines);
+  lines.push("@enduml");
+
+  return `${lines.join("\n")}\n`;
+};
@@ -0,0 +1,256 @@
+import { ActionNode } from "./actions";
+import { CondNode } from "./conds";
+import {
+  MachineParseResult,
+  MachineParseResultStateNode,
+} from "./MachineParseResult";
+import { TransitionConfigNode } from "./transitions";
+import { printXml, XmlElement } from "./xml";
+
+export const SCXML_NAMESPACE = "http://www.w3.org/2005/07/scxml";
+
+/**
+ * The namespace of the elements referencing named
+ * actions, like <xstate:action type="notify"/>
+ */
+export const XSTATE_SCXML_NAMESPACE = "https://xstate.js.org/scxml";
+
+/**
+ * SCXML ids are unique in the document, so state
+ * nodes are identified by their path
+ */
+export const getSCXMLStateId = (path: string[]) => path.join(".");
+
+const createElement = (
+  name: string,
+  attributes: Record<string, string | undefined> = {},
+  children: XmlElement[] = [],
+): XmlElement => {
+  const definedAttributes: Record<string, string> = {};
+
+  Object.keys(attributes).forEach((key) => {
+    if (attributes[key] !== undefined) {
+      definedAttributes[key] = attributes[key]!;
+    }
+  });
+
+  return { name, attributes: definedAttributes, children };
+};
+
+const getEventType = (
+  event: string | { type?: string } | undefined,
+): string | undefined => {
+  return typeof event === "string" ? event : event?.type;
+};
+
+/**
+ * Named and built-in actions become references, and
+ * raise becomes <raise>. Inline actions are left out
+ */
+const toActionElements = (actions: ActionNode[] = []): XmlElement[] => {
+  const elements: XmlElement[] = [];
+
+  actions.forEach(({ action, name }) => {
+    const actionObject = typeof action === "object" ? action : undefined;
+
+    if (actionObject?.type === "xstate.raise") {
+      elements.push(
+        createElement("raise", { event: getEventType(actionObject.event) }),
+      );
+    } else if (name || actionObject) {
+      elements.push(
+        createElement("xstate:action", { type: name || actionObject?.type }),
+      );
+    }
+  });
+
+  return elements;
+};
+
+const getGuardName = (transition: TransitionConfigNode) => {
+  const cond: CondNode | undefined = transition.cond || transition.guard;
+  return cond?.declarationType === "named" ? cond.name : undefined;
+};
+
+/**
+ * Prints the machine as a W3C SCXML document. Named actions and
+ * guards are kept as references, while inline ones, context
+ * and invoke options other than src and id are left out. So
+ * are the actions and transitions of the root state node,
+ * which SCXML has no place for
+ */
+export const toSCXML = (machine: MachineParseResult): string => {
+  const toTransitionElement = (
+    fromPath: string[],
+    transition: TransitionConfigNode,
+    event: string | undefined,
+  ) => {
+    const targets = (transition.target || [])
+      .map((target) => machine.resolveTarget(fromPath, target.value))
+      .filter((path): path is string[] => Boolean(path))
+      .map(getSCXMLStateId);
+
+    return createElement(
+      "transition",
+      {
+        event: event || undefined,
+        cond: getGuardName(transition),
+        target: targets.length ? targets.join(" ") : undefined,
+      },
+      toActionElements(transition.actions),
+    );
+  };
+
+  const getInitialId = (stateNode: MachineParseResultStateNode) => {
+    const initial = stateNode.ast.initial?.value;
+    const initialPath = [...stateNode.path, initial || ""];
+
+    return initial !== undefined && machine.getStateNodeByPath(initialPath)
+      ? getSCXMLStateId(initialPath)
+      : undefined;
+  };
+
+  /**
+   * Gets the executable content, invocations, transitions
+   * and children of a state node
+   */
+  const getStateNodeContents = (stateNode: MachineParseResultStateNode) => {
+    const { ast, path } = stateNode;
+    const stateId = machine.getStateNodeId(path) || getSCXMLStateId(path);
+    const contents: XmlElement[] = [];
+    const transitions: XmlElement[] = [];
+
+    const delaySends: XmlElement[] = [];
+    const delayCancels: XmlElement[] = [];
+
+    /**
+     * Like XState, each delayed send is identified by its event
+     * and cancelled on exit, so leaving and entering the state
+     * again doesn't let the earlier one take the transition
+     */
+    ast.after?.properties.forEach((property) => {
+      const event = `xstate.after(${property.key})#${stateId}`;
+      const isNumeric = /^\d+$/.test(property.key);
+
+      delaySends.push(
+        createElement("send", {
+          event,
+          id: event,
+          delay: isNumeric ? `${property.key}ms` : undefined,
+          delayexpr: isNumeric ? undefined : property.key,
+        }),
+      );
+      delayCancels.push(createElement("cancel", { sendid: event }));
+      property.result.forEach((transition) => {
+        transitions.push(toTransitionElement(path, transition, event));
+      });
+    });
+
+    const onEntry = [
+      ...toActionElements([...(ast.entry || []), ...(ast.onEntry || [])]),
+      ...delaySends,
+    ];
+    const onExit = [
+      ...toActionElements([...(ast.exit || []), ...(ast.onExit || [])]),
+      ...delayCancels,
+    ];
+
+    if (onEntry.length) contents.push(createElement("onentry", {}, onEntry));
+    if (onExit.length) contents.push(createElement("onexit", {}, onExit));
+
+    ast.invoke?.forEach((invoke, index) => {
+      const src =
+        typeof invoke.src?.value === "string" ? invoke.src.value : undefined;
+      const invokeId =
+        invoke.id?.value || src || `${stateId}:invocation[${index}]`;
+
+      contents.push(createElement("invoke", { id: invokeId, src }));
+
+      invoke.onDone?.forEach((transition) => {
+        transitions.push(
+          toTransitionElement(path, transition, `done.invoke.${invokeId}`),
+        );
+      });
+      invoke.onError?.forEach((transition) => {
+        transitions.push(
+          toTransitionElement(path, transition, `error.platform.${invokeId}`),
+        );
+      });
+    });
+
+    ast.on?.properties.forEach((property) => {
+      property.result.forEach((transition) => {
+        transitions.push(toTransitionElement(path, transition, property.key));
+      });
+    });
+    ast.always?.forEach((transition) => {
+      transitions.push(toTransitionElement(path, transition, undefined));
+    });
+    ast.onDone?.forEach((transition) => {
+      transitions.push(
+        toTransitionElement(path, transition, `done.state.${stateId}`),
+      );
+    });
+
+    contents.push(...transitions);
+
+    machine.getChildStateNodes(path).forEach((child) => {
+      contents.push(toStateElement(child));
+    });
+
+    return contents;
+  };
+
+  const toStateElement = (stateNode: MachineParseResultStateNode) => {
+    const id = getSCXMLStateId(stateNode.path);
+
+    switch (stateNode.ast.type?.value) {
+      case "history": {
+        const target =
+          stateNode.ast.target &&
+          machine.resolveTarget(stateNode.path, stateNode.ast.target.value);
+
+        return createElement(
+          "history",
+          {
+            id,
+            type: stateNode.ast.history?.value === "deep" ? "deep" : "shallow",
+          },
+          target
+            ? [createElement("transition", { target: getSCXMLStateId(target) })]
+            : [],
+        );
+      }
+      case "final":
+        return createElement("final", { id }, getStateNodeContents(stateNode));
+      case "parallel":
+        return createElement(
+          "parallel",
+          { id },
+          getStateNodeContents(stateNode),
+        );
+      default:
+        return createElement(
+          "state",
+          { id, initial: getInitialId(stateNode) },
+          getStateNodeContents(stateNode),
+        );
+    }
+  };
+
+  const root = machine.getStateNodeByPath([]);
+
+  const scxml = createElement(
+    "scxml",
+    {
+      xmlns: SCXML_NAMESPACE,
+      "xmlns:xstate": XSTATE_SCXML_NAMESPACE,
+      version: "1.0",
+      name: root?.ast.id?.value,
+      initial: root && getInitialId(root),
+    },
+    machine.getChildStateNodes([]).map(toStateElement),
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${printXml(scxml)}\n`;
+};
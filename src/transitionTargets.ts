@@ -0,0 +1,131 @@
+import type { MachineParseResultStateNode } from "./MachineParseResult";
+import { StringLiteralNode } from "./types";
+import { getPathKey } from "./utils";
+
+const DEFAULT_DELIMITER = ".";
+const DEFAULT_MACHINE_KEY = "(machine)";
+
+export interface ResolvedTransitionTarget {
+  fromPath: string[];
+  target: StringLiteralNode;
+  /**
+   * The absolute path of the targeted state node, or
+   * undefined when the target could not be resolved
+   */
+  resolvedPath: string[] | undefined;
+}
+
+interface StateNodeInfo {
+  path: string[];
+  delimiter: string;
+}
+
+const isStateId = (value: string) => value.startsWith("#");
+
+/**
+ * Resolves transition targets the way XState does, using
+ * the ids and delimiters of the state nodes
+ */
+export class TransitionTargetResolver {
+  private nodesByPath: Record<string, StateNodeInfo> = {};
+  private nodesById: Record<string, StateNodeInfo> = {};
+  private idsByPath: Record<string, string> = {};
+
+  constructor(stateNodes: MachineParseResultStateNode[]) {
+    const rootNode = stateNodes.find(
+      (stateNode) => stateNode.path.length === 0,
+    );
+    const machineKey = rootNode?.ast.id?.value || DEFAULT_MACHINE_KEY;
+
+    /**
+     * Parents always come before their children,
+     * so delimiters can be inherited
+     */
+    stateNodes.forEach((stateNode) => {
+      const parent =
+        stateNode.path.length > 0
+          ? this.nodesByPath[getPathKey(stateNode.path.slice(0, -1))]
+          : undefined;
+      const delimiter =
+        stateNode.ast.delimiter?.value ||
+        parent?.delimiter ||
+        DEFAULT_DELIMITER;
+
+      const info: StateNodeInfo = { path: stateNode.path, delimiter };
+
+      const id =
+        stateNode.ast.id?.value ||
+        [machineKey, ...stateNode.path].join(delimiter);
+
+      this.nodesByPath[getPathKey(stateNode.path)] = info;
+      this.nodesById[id] = info;
+      this.idsByPath[getPathKey(stateNode.path)] = id;
+    });
+  }
+
+  private getParent = (node: StateNodeInfo): StateNodeInfo | undefined => {
+    if (node.path.length === 0) return undefined;
+    return this.nodesByPath[getPathKey(node.path.slice(0, -1))];
+  };
+
+  private getChild = (
+    node: StateNodeInfo,
+    key: string,
+  ): StateNodeInfo | undefined => {
+    if (isStateId(key)) {
+      return this.nodesById[key.slice(1)];
+    }
+    return this.nodesByPath[getPathKey([...node.path, key])];
+  };
+
+  private getByPath = (
+    node: StateNodeInfo,
+    statePath: string,
+  ): StateNodeInfo | undefined => {
+    if (isStateId(statePath) && this.nodesById[statePath.slice(1)]) {
+      return this.nodesById[statePath.slice(1)];
+    }
+
+    let current: StateNodeInfo | undefined = node;
+
+    for (const key of statePath.split(node.delimiter)) {
+      if (!key.length) break;
+      current = this.getChild(current, key);
+      if (!current) return undefined;
+    }
+
+    return current;
+  };
+
+  /**
+   * Returns the id XState gives the state node at path:
+   * its own id, or one made from the machine's id and
+   * the path
+   */
+  getId = (path: string[]): string | undefined => {
+    return this.idsByPath[getPathKey(path)];
+  };
+
+  /**
+   * Returns the absolute path of the state node targeted
+   * from the state node at fromPath, or undefined when
+   * no state node matches
+   */
+  resolve = (fromPath: string[], target: string): string[] | undefined => {
+    const from = this.nodesByPath[getPathKey(fromPath)];
+    if (!from) return undefined;
+
+    const parent = this.getParent(from);
+    const isInternalTarget = target.startsWith(from.delimiter);
+
+    if (isInternalTarget && !parent) {
+      return this.getByPath(from, target.slice(from.delimiter.length))?.path;
+    }
+
+    const resolvedTarget = isInternalTarget
+      ? `${fromPath[fromPath.length - 1]}${target}`
+      : target;
+
+    return this.getByPath(parent || from, resolvedTarget)?.path;
+  };
+}
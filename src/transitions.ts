@@ -20,6 +20,7 @@ const TransitionObject = objectTypeWithKnownKeys({
   target: TransitionTarget,
   actions: MaybeArrayOfActions,
   cond: Cond,
+  guard: Cond,
 });
 
 const TransitionConfigOrTargetLiteral = unionType([
@@ -1,9 +1,7 @@
-import { AnyNode, BooleanLiteral } from "./scalars";
-import { unionType } from "./unionType";
-import { wrapParserResult } from "./wrapParserResult";
-import * as t from "@babel/types";
+import { StaticValueParser } from "./staticValue";
 
-export const TsTypes = unionType<{ node: t.Node; value?: boolean }>([
-  BooleanLiteral,
-  AnyNode,
-]);
+/**
+ * tsTypes is usually {} as import('./x.typegen').Typegen0,
+ * which evaluates to {}
+ */
+export const TsTypes = StaticValueParser;
@@ -0,0 +1,514 @@
+import { ActionNode } from "./actions";
+import {
+  ImplementationType,
+  MachineParseResult,
+  MachineParseResultStateNode,
+} from "./MachineParseResult";
+import { printKey, printString } from "./printMachineConfig";
+import { TransitionConfigNode } from "./transitions";
+import { getPathKey } from "./utils";
+
+export interface TypegenData {
+  eventsCausingActions: Record<string, string[]>;
+  /**
+   * Events XState sends itself, such as the done
+   * events of invoked services
+   */
+  internalEvents: string[];
+  invokeSrcNameMap: Record<string, string>;
+  missingImplementations: Record<
+    "actions" | "services" | "guards" | "delays",
+    string[]
+  >;
+  eventsCausingServices: Record<string, string[]>;
+  eventsCausingGuards: Record<string, string[]>;
+  eventsCausingDelays: Record<string, string[]>;
+  /**
+   * The paths of every state node which can be matched
+   */
+  matchesStates: string[][];
+  tags: string[];
+}
+
+export interface TypegenFile {
+  fileContents: string;
+  /**
+   * The name of the interface generated for each machine,
+   * keyed by the line and column of its callee, for
+   * instance '12:17'
+   */
+  typegenNames: Record<string, string>;
+}
+
+const INIT_EVENT = "xstate.init";
+
+/**
+ * The event XState's typegen uses for eventless transitions
+ */
+const ALWAYS_EVENT = "xstate.always";
+
+interface TransitionWithEvent {
+  event: string;
+  fromPath: string[];
+  config: TransitionConfigNode;
+}
+
+/**
+ * Collects the values added to each key without
+ * repeating them
+ */
+class RecordOfSets {
+  private map: Record<string, string[]> = {};
+
+  add = (key: string, values: string[]) => {
+    if (!this.map[key]) {
+      this.map[key] = [];
+    }
+    values.forEach((value) => {
+      if (!this.map[key].includes(value)) {
+        this.map[key].push(value);
+      }
+    });
+  };
+
+  toObject = () => this.map;
+}
+
+const getChildPaths = (stateNode: MachineParseResultStateNode) => {
+  return (
+    stateNode.ast.states?.properties.map((property) => [
+      ...stateNode.path,
+      property.key,
+    ]) || []
+  );
+};
+
+const isPrefixOf = (prefix: string[], path: string[]) => {
+  return (
+    prefix.length <= path.length &&
+    prefix.every((key, index) => path[index] === key)
+  );
+};
+
+/**
+ * Works out which events cause the actions, services, guards
+ * and delays of a machine by following its transitions
+ */
+class TypegenDataBuilder {
+  private transitions: TransitionWithEvent[] = [];
+  private eventsEnteringState = new RecordOfSets();
+  private eventsExitingState = new RecordOfSets();
+  private eventsCausingActions = new RecordOfSets();
+  private eventsCausingServices = new RecordOfSets();
+  private eventsCausingGuards = new RecordOfSets();
+  private eventsCausingDelays = new RecordOfSets();
+  private internalEvents: string[] = [INIT_EVENT];
+  private invokeSrcNameMap: Record<string, string> = {};
+
+  constructor(private machine: MachineParseResult) {}
+
+  private getStateId = (path: string[]) => {
+    return this.machine.getStateNodeId(path) || path.join(".");
+  };
+
+  private addInternalEvent = (event: string) => {
+    if (!this.internalEvents.includes(event)) {
+      this.internalEvents.push(event);
+    }
+  };
+
+  private collectTransitions = () => {
+    this.machine.getAllStateNodes().forEach((stateNode) => {
+      const { ast, path } = stateNode;
+      const stateId = this.getStateId(path);
+
+      const add = (event: string, configs: TransitionConfigNode[] = []) => {
+        if (event === ALWAYS_EVENT && configs.length) {
+          this.addInternalEvent(event);
+        }
+        configs.forEach((config) => {
+          this.transitions.push({ event, fromPath: path, config });
+        });
+      };
+
+      ast.on?.properties.forEach((on) =>
+        add(on.key || ALWAYS_EVENT, on.result),
+      );
+      ast.after?.properties.forEach((after) => {
+        const event = `xstate.after(${after.key})#${stateId}`;
+        this.addInternalEvent(event);
+        add(event, after.result);
+      });
+      add(ALWAYS_EVENT, ast.always);
+      if (ast.onDone) {
+        const event = `done.state.${stateId}`;
+        this.addInternalEvent(event);
+        add(event, ast.onDone);
+      }
+      ast.invoke?.forEach((invoke, index) => {
+        const src = typeof invoke.src?.value === "string" && invoke.src.value;
+        const id = invoke.id?.value || src || `${stateId}:invocation[${index}]`;
+
+        this.addInternalEvent(`done.invoke.${id}`);
+        this.addInternalEvent(`error.platform.${id}`);
+
+        if (src && invoke.src?.declarationType === "named") {
+          this.invokeSrcNameMap[src] = `done.invoke.${id}`;
+        }
+
+        add(`done.invoke.${id}`, invoke.onDone);
+        add(`error.platform.${id}`, invoke.onError);
+      });
+    });
+  };
+
+  /**
+   * Adds the state node at path and the state nodes XState
+   * enters by default beneath it: its initial state and
+   * every region of a parallel state
+   */
+  private enterDefaults = (path: string[], events: string[]) => {
+    const stateNode = this.machine.getStateNodeByPath(path);
+    if (!stateNode) return;
+
+    this.eventsEnteringState.add(getPathKey(path), events);
+
+    if (stateNode.ast.type?.value === "parallel") {
+      getChildPaths(stateNode).forEach((childPath) => {
+        this.enterDefaults(childPath, events);
+      });
+    } else if (stateNode.ast.initial) {
+      this.enterDefaults([...path, stateNode.ast.initial.value], events);
+    }
+  };
+
+  /**
+   * Marks the state nodes a transition exits and enters.
+   * Every state node beneath the transition's domain which
+   * might be active is counted as exited
+   */
+  private followTransition = (
+    fromPath: string[],
+    targetPath: string[],
+    event: string,
+  ) => {
+    let commonLength = 0;
+
+    while (
+      commonLength < fromPath.length &&
+      commonLength < targetPath.length &&
+      fromPath[commonLength] === targetPath[commonLength]
+    ) {
+      commonLength++;
+    }
+
+    /**
+     * Targeting a descendant leaves the source state node
+     * active, while other targets exit up to the closest
+     * state node containing both
+     */
+    const targetIsDescendant =
+      commonLength === fromPath.length && targetPath.length > fromPath.length;
+    const domainLength = targetIsDescendant
+      ? fromPath.length
+      : Math.min(commonLength, targetPath.length - 1);
+    const exitedRoot = targetIsDescendant
+      ? fromPath
+      : fromPath.slice(0, domainLength + 1);
+
+    this.machine.getAllStateNodes().forEach((stateNode) => {
+      if (
+        isPrefixOf(exitedRoot, stateNode.path) &&
+        stateNode.path.length > domainLength
+      ) {
+        this.eventsExitingState.add(getPathKey(stateNode.path), [event]);
+      }
+    });
+
+    for (let index = domainLength + 1; index < targetPath.length; index++) {
+      const ancestorPath = targetPath.slice(0, index);
+      this.eventsEnteringState.add(getPathKey(ancestorPath), [event]);
+
+      const ancestor = this.machine.getStateNodeByPath(ancestorPath);
+      if (ancestor?.ast.type?.value === "parallel") {
+        getChildPaths(ancestor).forEach((childPath) => {
+          if (!isPrefixOf(childPath, targetPath)) {
+            this.enterDefaults(childPath, [event]);
+          }
+        });
+      }
+    }
+
+    this.enterDefaults(targetPath, [event]);
+  };
+
+  private addActions = (actions: ActionNode[] = [], events: string[]) => {
+    actions.forEach((action) => {
+      if (action.declarationType === "named") {
+        this.eventsCausingActions.add(action.name, events);
+      }
+      action.chooseConditions?.forEach((chooseCondition) => {
+        const cond = chooseCondition.conditionNode;
+        if (cond?.declarationType === "named") {
+          this.eventsCausingGuards.add(cond.name, events);
+        }
+        this.addActions(chooseCondition.actionNodes, events);
+      });
+    });
+  };
+
+  build = (): TypegenData => {
+    this.collectTransitions();
+
+    this.enterDefaults([], [INIT_EVENT]);
+
+    this.transitions.forEach(({ event, fromPath, config }) => {
+      config.target?.forEach((target) => {
+        const targetPath = this.machine.resolveTarget(fromPath, target.value);
+        if (targetPath) {
+          this.followTransition(fromPath, targetPath, event);
+        }
+      });
+
+      this.addActions(config.actions, [event]);
+
+      const cond = config.cond || config.guard;
+
+      if (cond?.declarationType === "named") {
+        this.eventsCausingGuards.add(cond.name, [event]);
+      }
+    });
+
+    const entering = this.eventsEnteringState.toObject();
+    const exiting = this.eventsExitingState.toObject();
+
+    this.machine.getAllStateNodes().forEach(({ ast, path }) => {
+      const eventsEntering = entering[getPathKey(path)] || [];
+      const eventsExiting = exiting[getPathKey(path)] || [];
+
+      this.addActions(ast.entry, eventsEntering);
+      this.addActions(ast.onEntry, eventsEntering);
+      this.addActions(ast.exit, eventsExiting);
+      this.addActions(ast.onExit, eventsExiting);
+
+      ast.invoke?.forEach((invoke) => {
+        if (
+          invoke.src?.declarationType === "named" &&
+          typeof invoke.src.value === "string"
+        ) {
+          this.eventsCausingServices.add(invoke.src.value, eventsEntering);
+        }
+      });
+
+      ast.after?.properties.forEach((after) => {
+        if (this.machine.getAllNamedDelays()[after.key]) {
+          this.eventsCausingDelays.add(after.key, eventsEntering);
+        }
+      });
+    });
+
+    const missingImplementations: TypegenData["missingImplementations"] = {
+      actions: [],
+      services: [],
+      guards: [],
+      delays: [],
+    };
+
+    const missingKeys: Record<
+      ImplementationType,
+      keyof TypegenData["missingImplementations"]
+    > = {
+      action: "actions",
+      service: "services",
+      guard: "guards",
+      delay: "delays",
+    };
+
+    this.machine.getImplementationReport().missing.forEach((entry) => {
+      const names = missingImplementations[missingKeys[entry.type]];
+      if (!names.includes(entry.name)) {
+        names.push(entry.name);
+      }
+    });
+
+    const tags: string[] = [];
+
+    this.machine.getAllStateNodes().forEach(({ ast }) => {
+      ast.tags?.forEach((tag) => {
+        if (!tags.includes(tag.value)) {
+          tags.push(tag.value);
+        }
+      });
+    });
+
+    return {
+      eventsCausingActions: this.eventsCausingActions.toObject(),
+      internalEvents: this.internalEvents,
+      invokeSrcNameMap: this.invokeSrcNameMap,
+      missingImplementations,
+      eventsCausingServices: this.eventsCausingServices.toObject(),
+      eventsCausingGuards: this.eventsCausingGuards.toObject(),
+      eventsCausingDelays: this.eventsCausingDelays.toObject(),
+      matchesStates: this.machine
+        .getAllStateNodes()
+        .filter(
+          ({ ast, path }) => path.length > 0 && ast.type?.value !== "history",
+        )
+        .map(({ path }) => path),
+      tags,
+    };
+  };
+}
+
+/**
+ * Works out the data XState's typegen needs for a machine
+ */
+export const getTypegenData = (machine: MachineParseResult): TypegenData => {
+  return new TypegenDataBuilder(machine).build();
+};
+
+const printUnion = (values: string[]) => {
+  if (values.length === 0) return "never";
+  return values.map((value) => printString(value, "double")).join(" | ");
+};
+
+const printRecord = (record: Record<string, string>, indent: string) => {
+  const keys = Object.keys(record);
+  if (keys.length === 0) return "{}";
+
+  const lines = keys.map(
+    (key) => `${indent}  ${printKey(key, "double")}: ${record[key]};`,
+  );
+
+  return `{\n${lines.join("\n")}\n${indent}}`;
+};
+
+const printEventsRecord = (record: Record<string, string[]>) => {
+  const printed: Record<string, string> = {};
+  Object.keys(record).forEach((key) => {
+    printed[key] = printUnion(record[key]);
+  });
+  return printRecord(printed, "  ");
+};
+
+/**
+ * Prints the matchesStates union: every path as a string,
+ * plus objects for matching the children of compound
+ * states, for instance { parent?: "child" }
+ */
+const printMatchesStates = (paths: string[][]) => {
+  const printChildren = (parentPath: string[]): string | undefined => {
+    const childPaths = paths.filter(
+      (path) =>
+        path.length === parentPath.length + 1 && isPrefixOf(parentPath, path),
+    );
+    if (childPaths.length === 0) return undefined;
+
+    const objectEntries = childPaths
+      .map((childPath) => {
+        const grandChildren = printChildren(childPath);
+        if (!grandChildren) return undefined;
+        return `${printKey(
+          childPath[childPath.length - 1],
+          "double",
+        )}?: ${grandChildren}`;
+      })
+      .filter(Boolean);
+
+    const keys = childPaths.map((childPath) =>
+      printString(childPath[childPath.length - 1], "double"),
+    );
+
+    return [
+      ...keys,
+      ...(objectEntries.length ? [`{ ${objectEntries.join("; ")} }`] : []),
+    ].join(" | ");
+  };
+
+  const strings = paths.map((path) => printString(path.join("."), "double"));
+  const objects = paths
+    .filter((path) => path.length === 1)
+    .map((path) => {
+      const children = printChildren(path);
+      return children
+        ? `{ ${printKey(path[0], "double")}?: ${children} }`
+        : undefined;
+    })
+    .filter(Boolean) as string[];
+
+  const members = [...strings, ...objects];
+
+  return members.length ? members.join(" | ") : "never";
+};
+
+const printInternalEvents = (events: string[]) => {
+  const printed: Record<string, string> = {};
+
+  events.forEach((event) => {
+    const type = printString(event, "double");
+    printed[event] =
+      event.startsWith("done.invoke.") || event.startsWith("error.platform.")
+        ? `{ type: ${type}; data: unknown }`
+        : `{ type: ${type} }`;
+  });
+
+  return printRecord(printed, "  ");
+};
+
+const printTypegenInterface = (name: string, data: TypegenData) => {
+  const missing: Record<string, string> = {};
+  (["actions", "services", "guards", "delays"] as const).forEach((key) => {
+    missing[key] = printUnion(data.missingImplementations[key]);
+  });
+
+  const invokeSrcNameMap: Record<string, string> = {};
+  Object.keys(data.invokeSrcNameMap).forEach((src) => {
+    invokeSrcNameMap[src] = printString(data.invokeSrcNameMap[src], "double");
+  });
+
+  return `export interface ${name} {
+  "@@xstate/typegen": true;
+  eventsCausingActions: ${printEventsRecord(data.eventsCausingActions)};
+  internalEvents: ${printInternalEvents(data.internalEvents)};
+  invokeSrcNameMap: ${printRecord(invokeSrcNameMap, "  ")};
+  missingImplementations: ${printRecord(missing, "  ")};
+  eventsCausingServices: ${printEventsRecord(data.eventsCausingServices)};
+  eventsCausingGuards: ${printEventsRecord(data.eventsCausingGuards)};
+  eventsCausingDelays: ${printEventsRecord(data.eventsCausingDelays)};
+  matchesStates: ${printMatchesStates(data.matchesStates)};
+  tags: ${printUnion(data.tags)};
+}
+`;
+};
+
+/**
+ * Generates the contents of the .typegen.ts file for the
+ * machines of a file which declare tsTypes
+ */
+export const generateTypegenFile = (
+  machines: MachineParseResult[],
+): TypegenFile => {
+  const typegenNames: Record<string, string> = {};
+  const interfaces: string[] = [];
+
+  machines
+    .filter((machine) => machine.ast?.definition?.tsTypes)
+    .forEach((machine, index) => {
+      const name = `Typegen${index}`;
+      const start = machine.ast.callee.loc?.start;
+
+      if (start) {
+        typegenNames[`${start.line}:${start.column}`] = name;
+      }
+
+      interfaces.push(printTypegenInterface(name, getTypegenData(machine)));
+    });
+
+  return {
+    fileContents: [
+      "// This file was automatically generated. Edits will be overwritten\n",
+      ...interfaces,
+    ].join("\n"),
+    typegenNames,
+  };
+};
@@ -1,4 +1,6 @@
 import * as t from "@babel/types";
+import type { Scope } from "@babel/traverse";
+import { FileIndex } from "./fileIndex";
 import { MachineConfig } from "xstate";
 import { MachineParseResult } from "./MachineParseResult";
 
@@ -9,8 +11,76 @@ export interface StringLiteralNode {
   node: t.Node;
 }
 
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export type DiagnosticCode =
+  | "invalid-machine-definition"
+  | "invalid-property-value"
+  | "unresolved-spread"
+  | "unresolved-computed-key"
+  | "unresolved-import"
+  | "ambiguous-binding"
+  | "unresolved-target"
+  | "circular-reference";
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  location: Location;
+  /**
+   * Only present when the path of the file was passed
+   * to the parser
+   */
+  filePath?: string;
+}
+
+/**
+ * Lets the parser follow imports into other files.
+ * Return undefined from either function when a file
+ * cannot be found
+ */
+export interface ResolverHost {
+  readFile: (filePath: string) => string | undefined;
+  resolveModule: (
+    specifier: string,
+    fromFilePath: string | undefined,
+  ) => string | undefined;
+}
+
+export interface ModuleResolver {
+  host: ResolverHost;
+  /**
+   * Parsed files and their program scopes, keyed by path.
+   * null marks a file which could not be read or parsed
+   */
+  files: Record<
+    string,
+    {
+      file: t.File;
+      contents: string;
+      scope: Scope;
+      index: FileIndex;
+    } | null
+  >;
+}
+
 export interface ParserContext {
   file: t.File;
+  index: FileIndex;
+  diagnostics: Diagnostic[];
+  /**
+   * The scope names are resolved in. When absent, names
+   * are resolved by searching the whole file
+   */
+  scope?: Scope;
+  filePath?: string;
+  /**
+   * The source of the file being parsed, used to
+   * read the text of nodes
+   */
+  fileContents?: string;
+  resolver?: ModuleResolver;
 }
 
 export interface Parser<T extends t.Node = any, Result = any> {
@@ -35,6 +105,15 @@ export interface ParseResult {
   machines: MachineParseResult[];
   comments: Comment[];
   file: t.File | undefined;
+  diagnostics: Diagnostic[];
+  /**
+   * Finds the innermost machine containing the position,
+   * with a 1-based line and a 0-based column
+   */
+  findMachineAtPosition: (
+    line: number,
+    column: number,
+  ) => MachineParseResult | undefined;
 }
 
 export type DeclarationType = "named" | "inline" | "identifier" | "unknown";
@@ -1,5 +1,6 @@
 import * as t from "@babel/types";
 import { createParser } from "./createParser";
+import { describeNode, reportDiagnostic } from "./diagnostics";
 import {
   identifierReferencingVariableDeclaration,
   maybeIdentifierTo,
@@ -202,27 +203,46 @@ export const getPropertiesOfObjectExpression = (
     key: string;
     keyNode: t.Node;
     property: t.ObjectMethod | t.ObjectProperty | t.SpreadElement;
+    /**
+     * The context the property was found in, which can
+     * be another file when it came from a spread
+     */
+    context: ParserContext;
   }[] = [];
 
   node?.properties.forEach((property) => {
-    const propertiesToParse: (
-      | t.ObjectMethod
-      | t.ObjectProperty
-      | t.SpreadElement
-    )[] = [property];
+    const propertiesToParse: {
+      property: t.ObjectMethod | t.ObjectProperty | t.SpreadElement;
+      context: ParserContext;
+    }[] = [{ property, context }];
 
     const spreadElementResult = spreadElementReferencingIdentifier(
       createParser({
         babelMatcher: t.isObjectExpression,
-        parseNode: (node) => node,
+        parseNode: (node, context) => ({ node, context }),
       }),
     ).parse(property, context);
 
-    propertiesToParse.push(
-      ...(spreadElementResult?.argumentResult?.properties || []),
-    );
+    if (t.isSpreadElement(property) && !spreadElementResult?.argumentResult) {
+      reportDiagnostic(context, {
+        code: "unresolved-spread",
+        message: `Could not resolve the spread of ${describeNode(
+          property.argument,
+        )}`,
+        node: property,
+      });
+    }
+
+    const spreadObject = spreadElementResult?.argumentResult;
 
-    propertiesToParse.forEach((property) => {
+    spreadObject?.node.properties.forEach((spreadProperty) => {
+      propertiesToParse.push({
+        property: spreadProperty,
+        context: spreadObject.context,
+      });
+    });
+
+    propertiesToParse.forEach(({ property, context }) => {
       const result = propertyKey.parse(property, context);
       if (result && result?.key) {
         propertiesToReturn.push({
@@ -230,6 +250,15 @@ export const getPropertiesOfObjectExpression = (
           node: result.node,
           keyNode: result.key.node,
           property,
+          context,
+        });
+      } else if (t.isObjectProperty(property) && property.computed) {
+        reportDiagnostic(context, {
+          code: "unresolved-computed-key",
+          message: `Could not evaluate the computed key ${describeNode(
+            property.key,
+          )}`,
+          node: property.key,
         });
       }
     });
@@ -238,6 +267,23 @@ export const getPropertiesOfObjectExpression = (
   return propertiesToReturn;
 };
 
+const reportInvalidPropertyValue = (
+  context: ParserContext,
+  property: { key: string; node: t.ObjectProperty | t.ObjectMethod },
+) => {
+  const valueNode = t.isObjectProperty(property.node)
+    ? property.node.value
+    : property.node;
+
+  reportDiagnostic(context, {
+    code: "invalid-property-value",
+    message: `Could not parse the value of "${
+      property.key
+    }", found ${describeNode(valueNode)}`,
+    node: valueNode,
+  });
+};
+
 export type GetObjectKeysResult<
   T extends { [index: string]: AnyParser<unknown> },
 > = {
@@ -281,9 +327,13 @@ export const objectTypeWithKnownKeys = <
             let result: any | undefined;
 
             if (t.isObjectMethod(property.node)) {
-              result = parser.parse(property.node, context);
+              result = parser.parse(property.node, property.context);
             } else if (t.isObjectProperty(property.node)) {
-              result = parser.parse(property.node.value, context);
+              result = parser.parse(property.node.value, property.context);
+            }
+
+            if (!result) {
+              reportInvalidPropertyValue(property.context, property);
             }
 
             (toReturn as any)[key] = result;
@@ -328,9 +378,13 @@ export const objectOf = <Result>(
           let result: Result | undefined;
 
           if (t.isObjectMethod(property.node)) {
-            result = parser.parse(property.node, context);
+            result = parser.parse(property.node, property.context);
           } else if (t.isObjectProperty(property.node)) {
-            result = parser.parse(property.node.value, context);
+            result = parser.parse(property.node.value, property.context);
+          }
+
+          if (!result) {
+            reportInvalidPropertyValue(property.context, property);
           }
 
           if (result) {
@@ -349,18 +403,36 @@ export const objectOf = <Result>(
   );
 };
 
+/**
+ * Parses objects with a static type, such as
+ * { type: 'notify', params: {} }
+ */
+export const objectWithType = wrapParserResult(
+  objectTypeWithKnownKeys(() => ({ type: StringLiteral })),
+  (result) => {
+    if (!result.type) return undefined;
+    return { node: result.node as t.Node, type: result.type.value };
+  },
+);
+
 /**
  * Returns a parser for a named function and allows you to
  * parse its arguments
  */
-export const namedFunctionCall = <Argument1Result, Argument2Result>(
+export const namedFunctionCall = <
+  Argument1Result,
+  Argument2Result,
+  Argument3Result = undefined,
+>(
   name: string,
   argument1Parser: AnyParser<Argument1Result>,
   argument2Parser?: AnyParser<Argument2Result>,
+  argument3Parser?: AnyParser<Argument3Result>,
 ): AnyParser<{
   node: t.CallExpression;
   argument1Result: Argument1Result | undefined;
   argument2Result: Argument2Result | undefined;
+  argument3Result: Argument3Result | undefined;
 }> => {
   const namedFunctionParser = maybeTsAsExpression(
     maybeIdentifierTo(
@@ -390,6 +462,7 @@ export const namedFunctionCall = <Argument1Result, Argument2Result>(
         node,
         argument1Result: argument1Parser.parse(node.arguments[0], context),
         argument2Result: argument2Parser?.parse(node.arguments[1], context),
+        argument3Result: argument3Parser?.parse(node.arguments[2], context),
       };
     },
   };
@@ -400,3 +473,31 @@ export const isFunctionOrArrowFunctionExpression = (
 ): node is t.ArrowFunctionExpression | t.FunctionExpression => {
   return t.isArrowFunctionExpression(node) || t.isFunctionExpression(node);
 };
+
+/**
+ * Keys state node paths, keeping ["a.b"] and ["a", "b"] apart
+ */
+export const getPathKey = (path: string[]) => JSON.stringify(path);
+
+/**
+ * Events sent by XState itself, which never
+ * appear in the declared events
+ */
+export const isBuiltInEvent = (eventType: string) => {
+  return (
+    eventType === "" ||
+    eventType === "*" ||
+    /^(xstate|done|error)\./.test(eventType)
+  );
+};
+
+/**
+ * The file Babel parsed the node from. Babel sets it on
+ * the location, but its types leave it out
+ */
+export const getNodeFilename = (node: t.Node): string | undefined => {
+  const loc: (t.SourceLocation & { filename?: string }) | null | undefined =
+    node.loc;
+
+  return loc?.filename;
+};
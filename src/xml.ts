@@ -0,0 +1,150 @@
+export interface XmlElement {
+  /**
+   * The name as written, including its prefix
+   */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const decodeEntities = (text: string) => {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const codePoint =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(codePoint);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+};
+
+export const escapeXml = (text: string) => {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+};
+
+const NAME_REGEX = /^[^\s/>=]+/;
+const ATTRIBUTE_REGEX = /^([^\s/>=]+)\s*=\s*("([^"]*)"|'([^']*)')/;
+
+/**
+ * Parses the elements and attributes of an XML document. Text,
+ * comments and processing instructions are skipped, which is
+ * all SCXML needs
+ */
+export const parseXml = (source: string): XmlElement => {
+  let index = 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+
+  const createError = (message: string) => {
+    return new Error(`Invalid XML at offset ${index}: ${message}`);
+  };
+
+  const skipPast = (terminator: string) => {
+    const end = source.indexOf(terminator, index);
+    if (end === -1) throw createError(`expected ${terminator}`);
+    index = end + terminator.length;
+  };
+
+  while (index < source.length) {
+    const tagStart = source.indexOf("<", index);
+    if (tagStart === -1) break;
+    index = tagStart;
+
+    if (source.startsWith("<?", index)) {
+      skipPast("?>");
+    } else if (source.startsWith("<!--", index)) {
+      skipPast("-->");
+    } else if (source.startsWith("<![CDATA[", index)) {
+      skipPast("]]>");
+    } else if (source.startsWith("<!", index)) {
+      skipPast(">");
+    } else if (source.startsWith("</", index)) {
+      index += 2;
+      const name = source.slice(index).match(NAME_REGEX)?.[0];
+      const element = stack.pop();
+
+      if (!element || element.name !== name) {
+        throw createError(`unexpected closing tag </${name}>`);
+      }
+      skipPast(">");
+    } else {
+      index += 1;
+      const name = source.slice(index).match(NAME_REGEX)?.[0];
+      if (!name) throw createError("expected the name of an element");
+      index += name.length;
+
+      const element: XmlElement = { name, attributes: {}, children: [] };
+      const parent = stack[stack.length - 1];
+
+      if (parent) {
+        parent.children.push(element);
+      } else if (!root) {
+        root = element;
+      } else {
+        throw createError("more than one root element");
+      }
+
+      while (true) {
+        index += source.slice(index).match(/^\s*/)![0].length;
+
+        if (source.startsWith("/>", index)) {
+          index += 2;
+          break;
+        }
+        if (source.startsWith(">", index)) {
+          index += 1;
+          stack.push(element);
+          break;
+        }
+
+        const attribute = source.slice(index).match(ATTRIBUTE_REGEX);
+        if (!attribute) throw createError(`invalid attribute in <${name}>`);
+
+        element.attributes[attribute[1]] = decodeEntities(
+          attribute[3] ?? attribute[4],
+        );
+        index += attribute[0].length;
+      }
+    }
+  }
+
+  if (stack.length) {
+    throw createError(`<${stack[stack.length - 1].name}> is not closed`);
+  }
+  if (!root) throw createError("no root element");
+
+  return root;
+};
+
+/**
+ * Prints an element and its children, one element per line
+ */
+export const printXml = (element: XmlElement, indent = ""): string => {
+  const attributes = Object.keys(element.attributes)
+    .map((key) => ` ${key}="${escapeXml(element.attributes[key])}"`)
+    .join("");
+
+  if (!element.children.length) {
+    return `${indent}<${element.name}${attributes}/>`;
+  }
+
+  return [
+    `${indent}<${element.name}${attributes}>`,
+    ...element.children.map((child) => printXml(child, `${indent}  `)),
+    `${indent}</${element.name}>`,
+  ].join("\n");
+};